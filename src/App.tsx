@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { client, useConfig, useElementData, useElementColumns, useVariable } from '@sigmacomputing/plugin';
 import { Button } from './components/ui/button';
 import { Settings as SettingsIcon, AlertCircle, ChevronDown } from 'lucide-react';
@@ -7,44 +7,130 @@ import SankeyChart from './components/SankeyChart';
 import SankeyIcon from './components/icons/SankeyIcon';
 import SankeyFlowIcon from './components/icons/SankeyFlowIcon';
 import ErrorBoundary from './components/ErrorBoundary';
-import { transformSigmaDataToSankey, validateSankeyData, aggregateLinks } from './lib/sankeyDataTransform';
-import { DEFAULT_SANKEY_SETTINGS } from './lib/sankeyDefaults';
+import DataQualityPanel, { describeSkippedRows } from './components/DataQualityPanel';
+import SankeyLegend from './components/SankeyLegend';
+import { transformSigmaDataToSankey, transformPathDataToSankey, transformEventLogToSankey, validateSankeyData, aggregateLinks, netOpposingFlows, rollupSmallFlows, sortNodes, TooltipColumn } from './lib/sankeyDataTransform';
+import { breakCycles } from './lib/sankeyCycles';
+import { DEFAULT_SANKEY_SETTINGS, withSankeyDefaults } from './lib/sankeyDefaults';
+import { createNumberFormatter, getColumnNumberFormat } from './lib/numberFormat';
+import { ChartSelection, EMPTY_SELECTION, readVariableValues } from './lib/chartSelection';
+import { applyViewState, EMPTY_VIEW_STATE } from './lib/viewState';
+import { buildLegendEntries, LegendEntry } from './lib/legend';
 import { 
   SigmaConfig, 
   SigmaData, 
   PluginSettings, 
   DataInfo, 
   ConfigParseError,
-  SankeyChartData 
+  SankeyChartData,
+  SankeySettings,
+  SankeyViewState
 } from './types/sigma';
 import './App.css';
 
 // Configure the plugin editor panel
 client.config.configureEditorPanel([
   { name: 'source', type: 'element' },
+  { name: 'inputMode', type: 'dropdown', source: 'source', label: 'Input Mode', values: ['Source/Target', 'Path', 'Event Log'], defaultValue: 'Source/Target' },
   { name: 'sourceColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Source Column' },
   { name: 'targetColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Target Column' },
-  { name: 'valueColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Value Column' },
+  { name: 'sourceGroupColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Source Group Column (Optional)' },
+  { name: 'targetGroupColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Target Group Column (Optional)' },
+  { name: 'categoryColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Node Category Column (Optional - source or activity)' },
+  { name: 'colorColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Node Color Column (Optional - hex values, source or activity)' },
+  { name: 'targetCategoryColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Target Category Column (Optional - Source/Target mode)' },
+  { name: 'targetColorColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Target Color Column (Optional - hex values, Source/Target mode)' },
+  { name: 'sortColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Node Sort Order Column (Optional - source or activity)' },
+  { name: 'targetSortColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Target Sort Order Column (Optional - Source/Target mode)' },
+  { name: 'stageColumns', type: 'column', source: 'source', allowMultiple: true, label: 'Stage Columns (Path Mode, in order)' },
+  { name: 'caseColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Case ID Column (Event Log Mode)' },
+  { name: 'timestampColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Timestamp Column (Event Log Mode)' },
+  { name: 'activityColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Activity Column (Event Log Mode)' },
+  { name: 'valueColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Value Column (Optional - counts rows when empty)' },
   { name: 'idColumn', type: 'column', source: 'source', allowMultiple: false, label: 'ID Column (Optional)' },
+  { name: 'tooltipColumns', type: 'column', source: 'source', allowMultiple: true, label: 'Tooltip Columns (Optional)' },
+  { name: 'stageColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Stage/Level Column (Optional)' },
   { name: 'selectedID', type: 'variable', label: 'Selected ID Control' },
+  { name: 'selectedNode', type: 'variable', label: 'Selected Node Control' },
   { name: 'config', type: 'text', label: 'Settings Config (JSON)', defaultValue: "{}" },
   { name: 'editMode', type: 'toggle', label: 'Edit Mode' }
 ]);
 
+interface ColumnRequirement {
+  name: string;
+  key: keyof SigmaConfig;
+  required: boolean;
+}
+
+// Columns each input mode needs before a chart can be drawn
+const getColumnRequirements = (config: SigmaConfig): ColumnRequirement[] => {
+  if (config.inputMode === 'Event Log') {
+    return [
+      { name: 'Case ID Column', key: 'caseColumn', required: true },
+      { name: 'Timestamp Column', key: 'timestampColumn', required: true },
+      { name: 'Activity Column', key: 'activityColumn', required: true }
+    ];
+  }
+
+  if (config.inputMode === 'Path') {
+    return [
+      { name: 'Stage Columns', key: 'stageColumns', required: true },
+      { name: 'Value Column', key: 'valueColumn', required: false },
+      { name: 'ID Column', key: 'idColumn', required: false }
+    ];
+  }
+
+  return [
+    { name: 'Source Column', key: 'sourceColumn', required: true },
+    { name: 'Target Column', key: 'targetColumn', required: true },
+    { name: 'Value Column', key: 'valueColumn', required: false },
+    { name: 'ID Column', key: 'idColumn', required: false }
+  ];
+};
+
+// Path mode needs at least two stages to form a single link
+const isColumnSelected = (config: SigmaConfig, key: keyof SigmaConfig): boolean => {
+  const value = config[key];
+  if (Array.isArray(value)) {
+    return key === 'stageColumns' ? value.length >= 2 : value.length > 0;
+  }
+  return !!value;
+};
+
 const App: React.FC = (): React.JSX.Element => {
   const config: SigmaConfig = useConfig();
   const sigmaData: SigmaData = useElementData(config.source || '');
   const columns = useElementColumns(config.source || '');
-  const [, setSelectedID] = useVariable(config.selectedID!);
+  const [selectedIDVariable, setSelectedID] = useVariable(config.selectedID!);
+  const [selectedNodeVariable, setSelectedNode] = useVariable(config.selectedNode!);
+  // Lists last written to the selection variables, so a click only rewrites what changed
+  const writtenSelection = useRef<ChartSelection>(EMPTY_SELECTION);
   const [showSettings, setShowSettings] = useState<boolean>(false);
   const [settings, setSettings] = useState<PluginSettings>(DEFAULT_SETTINGS);
+  // Nodes hidden, collapsed or isolated from the chart's context menu, for this session
+  const [viewState, setViewState] = useState<SankeyViewState>(EMPTY_VIEW_STATE);
+
+  const isPathMode = config.inputMode === 'Path';
+  const isEventLogMode = config.inputMode === 'Event Log';
+  // Source/Target rows only carry a stage when a Stage/Level Column is picked
+  const hasStages = isPathMode || isEventLogMode || !!config.stageColumn;
+  const columnRequirements = getColumnRequirements(config);
+  const hasRequiredColumns = columnRequirements.every(column => !column.required || isColumnSelected(config, column.key));
+  // First column of the active mode, used to tell "no rows yet" apart from "rows but no flows"
+  const primaryColumn = isEventLogMode
+    ? config.caseColumn
+    : isPathMode ? config.stageColumns?.[0] : config.sourceColumn;
 
   // Parse config JSON and load settings
   useEffect(() => {
     if (config.config?.trim()) {
       try {
         const parsedConfig = JSON.parse(config.config) as Partial<PluginSettings>;
-        const newSettings: PluginSettings = { ...DEFAULT_SETTINGS, ...parsedConfig };
+        const newSettings: PluginSettings = {
+          ...DEFAULT_SETTINGS,
+          ...parsedConfig,
+          sankey: withSankeyDefaults(parsedConfig.sankey)
+        };
         setSettings(newSettings);
       } catch (err) {
         const error: ConfigParseError = {
@@ -65,6 +151,21 @@ const App: React.FC = (): React.JSX.Element => {
     setShowSettings(false);
   }, []);
 
+  // Save node positions dragged in edit mode to the config, like the Settings dialog does
+  const handleNodePositionsChange = useCallback((nodePositions: Record<string, number>): void => {
+    const sankey = settings.sankey || DEFAULT_SANKEY_SETTINGS;
+    const newSettings: PluginSettings = {
+      ...settings,
+      sankey: { ...sankey, layout: { ...sankey.layout, nodePositions } }
+    };
+    try {
+      client.config.set({ config: JSON.stringify(newSettings, null, 2) });
+      setSettings(newSettings);
+    } catch (error) {
+      console.error('Error saving node positions:', error);
+    }
+  }, [settings]);
+
   const handleShowSettings = useCallback((): void => {
     setShowSettings(true);
   }, []);
@@ -75,6 +176,29 @@ const App: React.FC = (): React.JSX.Element => {
 
 
 
+  // Write the chart selection to the Selected ID (link IDs) and Selected Node (node names)
+  // variables as lists; an empty selection clears them
+  const handleSelectionChange = useCallback((linkIds: string[], nodeNames: string[]): void => {
+    const isSame = (a: string[], b: string[]) => a.length === b.length && a.every((item, i) => item === b[i]);
+
+    if (config.selectedID && !isSame(linkIds, writtenSelection.current.links)) {
+      setSelectedID(linkIds.length > 0 ? linkIds : null);
+    }
+    if (config.selectedNode && !isSame(nodeNames, writtenSelection.current.nodes)) {
+      setSelectedNode(nodeNames.length > 0 ? nodeNames : null);
+    }
+    writtenSelection.current = { links: linkIds, nodes: nodeNames };
+  }, [config.selectedID, config.selectedNode, setSelectedID, setSelectedNode]);
+
+  // Values set on the selection controls, by this chart or any other element, are
+  // highlighted on the chart. Keyed by their text so the highlight only changes with them.
+  const highlightedLinkKey = readVariableValues(selectedIDVariable).join('\n');
+  const highlightedNodeKey = readVariableValues(selectedNodeVariable).join('\n');
+  const highlight: ChartSelection = useMemo(() => ({
+    links: highlightedLinkKey ? highlightedLinkKey.split('\n') : [],
+    nodes: highlightedNodeKey ? highlightedNodeKey.split('\n') : []
+  }), [highlightedLinkKey, highlightedNodeKey]);
+
   // Keyboard shortcuts for enhanced interactivity
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -92,90 +216,234 @@ const App: React.FC = (): React.JSX.Element => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [config.editMode, showSettings, handleShowSettings]);
 
+  // Extra columns carried on links for {col:Name} tooltip variables
+  const tooltipColumns: TooltipColumn[] = useMemo(
+    () => (config.tooltipColumns || []).map(id => ({
+      id,
+      name: columns[id]?.name || id,
+      isDate: columns[id]?.columnType === 'datetime'
+    })),
+    [config.tooltipColumns, columns]
+  );
+
+  // Settings as the chart applies them: Path mode has no sort order column, so a saved
+  // column sort falls back to the automatic order there
+  const chartSettings: SankeySettings = useMemo(() => {
+    const sankey = settings.sankey || DEFAULT_SANKEY_SETTINGS;
+    return isPathMode && sankey.layout.nodeSort === 'column'
+      ? { ...sankey, layout: { ...sankey.layout, nodeSort: 'auto' } }
+      : sankey;
+  }, [settings.sankey, isPathMode]);
+
   // Transform Sigma data to Sankey format with performance optimization
   const sankeyData: SankeyChartData = useMemo(() => {
-    if (!sigmaData || !config.sourceColumn || !config.targetColumn || !config.valueColumn) {
+    if (!sigmaData || !hasRequiredColumns) {
       return { nodes: [], links: [] };
     }
 
     try {
-      const rawData = transformSigmaDataToSankey(
-        sigmaData, 
-        config.sourceColumn, 
-        config.targetColumn, 
-        config.valueColumn,
-        config.idColumn
-      );
-
-      // Aggregate duplicate links
-      const aggregatedLinks = aggregateLinks(rawData.links);
-      
-      return {
+      const { data: dataSettings, layout: layoutSettings } = chartSettings;
+      const transformOptions = {
+        qualifyByStage: dataSettings.nodeIdentity === 'stage',
+        stageColumn: config.stageColumn,
+        signedFlows: dataSettings.signedFlows,
+        sourceGroupColumn: config.sourceGroupColumn,
+        targetGroupColumn: config.targetGroupColumn,
+        categoryColumn: config.categoryColumn,
+        colorColumn: config.colorColumn,
+        targetCategoryColumn: config.targetCategoryColumn,
+        targetColorColumn: config.targetColorColumn,
+        sortColumn: config.sortColumn,
+        targetSortColumn: config.targetSortColumn,
+        tooltipColumns
+      };
+
+      const rawData = isEventLogMode
+        ? transformEventLogToSankey(
+            sigmaData,
+            config.caseColumn!,
+            config.timestampColumn!,
+            config.activityColumn!,
+            dataSettings.addStartEndNodes,
+            transformOptions
+          )
+        : isPathMode
+        ? transformPathDataToSankey(
+            sigmaData,
+            config.stageColumns!,
+            config.valueColumn,
+            config.idColumn,
+            transformOptions
+          )
+        : transformSigmaDataToSankey(
+            sigmaData, 
+            config.sourceColumn!, 
+            config.targetColumn!, 
+            config.valueColumn,
+            config.idColumn,
+            transformOptions
+          );
+
+      // Aggregate duplicate links, net opposite pairs when asked, then fold small flows
+      // into "Other" so totals still add up
+      const aggregatedData = {
         nodes: rawData.nodes,
-        links: aggregatedLinks
+        links: aggregateLinks(rawData.links, dataSettings.aggregation, dataSettings.tooltipColumnAggregation)
+      };
+      const nettedData = dataSettings.signedFlows === 'net' ? netOpposingFlows(aggregatedData) : aggregatedData;
+      const rolledUpData = rollupSmallFlows(nettedData, dataSettings);
+
+      // Resolve cycles before ECharts sees them - with no strategy, validation reports them instead.
+      // Nodes come out in the chosen order, which the chart keeps
+      return {
+        ...sortNodes(breakCycles(rolledUpData, dataSettings.cycleStrategy), layoutSettings.nodeSort),
+        skippedRows: rawData.skippedRows
       };
     } catch (error) {
       console.error('Error processing Sankey data:', error);
       return { nodes: [], links: [] };
     }
-  }, [sigmaData, config.sourceColumn, config.targetColumn, config.valueColumn, config.idColumn]);
+  }, [sigmaData, hasRequiredColumns, isPathMode, isEventLogMode, config.sourceColumn, config.targetColumn, config.sourceGroupColumn, config.targetGroupColumn, config.categoryColumn, config.colorColumn, config.targetCategoryColumn, config.targetColorColumn, config.sortColumn, config.targetSortColumn, config.stageColumns, config.stageColumn, config.caseColumn, config.timestampColumn, config.activityColumn, config.valueColumn, config.idColumn, tooltipColumns, chartSettings]);
+
+  // The data as the viewer has shaped it from the context menu
+  const viewData: SankeyChartData = useMemo(() => {
+    const dataSettings = (settings.sankey || DEFAULT_SANKEY_SETTINGS).data;
+    return applyViewState(sankeyData, viewState, dataSettings.aggregation, dataSettings.tooltipColumnAggregation);
+  }, [sankeyData, viewState, settings.sankey]);
 
   // Validate Sankey data - but only when we have attempted to load data
   const dataValidation = useMemo(() => {
     // Don't run validation if we have no config yet
-    if (!config.sourceColumn || !config.targetColumn || !config.valueColumn) {
+    if (!hasRequiredColumns || !primaryColumn) {
       return { isValid: true, errors: [], warnings: [] };
     }
     
     // Don't show validation errors for initial empty state - only after we've tried to transform data
     if (sankeyData.nodes.length === 0 && sankeyData.links.length === 0 && sigmaData) {
       // Check if we have source data but it resulted in empty sankeyData - this indicates a real validation issue
-      const sourceData = sigmaData[config.sourceColumn] || [];
-      if (sourceData.length > 0) {
-        // We have source data but got empty result - run validation to show what went wrong
-        return validateSankeyData(sankeyData);
+      const sourceData = sigmaData[primaryColumn] || [];
+      if (sourceData.length === 0) {
+        // No source data yet or empty source data - don't show validation errors
+        return { isValid: true, errors: [], warnings: [] };
       }
-      // No source data yet or empty source data - don't show validation errors
-      return { isValid: true, errors: [], warnings: [] };
     }
-    
-    return validateSankeyData(sankeyData);
-  }, [sankeyData, config.sourceColumn, config.targetColumn, config.valueColumn, sigmaData]);
+
+    const validation = validateSankeyData(sankeyData);
+    // Stage identity without stages keys nodes by name alone, so repeated names still loop
+    if (chartSettings.data.nodeIdentity === 'stage' && !hasStages) {
+      validation.warnings.push('Nodes are set to be identified by name and stage, but no Stage/Level Column is selected, so they are identified by name only');
+    }
+    return validation;
+  }, [sankeyData, hasRequiredColumns, primaryColumn, sigmaData, chartSettings, hasStages]);
 
   // Get data information
   const getDataInfo = useCallback((): DataInfo | null => {
-    if (!sigmaData || !config.sourceColumn || !config.targetColumn || !config.valueColumn) {
+    if (!sigmaData || !hasRequiredColumns) {
+      return null;
+    }
+
+    // Get column names from columns object using the column IDs
+    const columnName = (columnId: string): string => columns[columnId]?.name || columnId;
+
+    if (isEventLogMode) {
+      const caseColumnData = sigmaData[config.caseColumn!];
+      const activityColumnData = sigmaData[config.activityColumn!];
+
+      if (!caseColumnData || !activityColumnData || !sigmaData[config.timestampColumn!]) {
+        return null;
+      }
+
+      const activityColumnName = columnName(config.activityColumn!);
+
+      return {
+        rowCount: caseColumnData.length,
+        sourceColumnName: activityColumnName,
+        targetColumnName: activityColumnName,
+        valueColumnName: 'case count',
+        columnSummary: `"${activityColumnName}" per "${columnName(config.caseColumn!)}", ordered by "${columnName(config.timestampColumn!)}"`,
+        hasData: caseColumnData.length > 0 && activityColumnData.length > 0
+      };
+    }
+
+    // Without a value column every row counts once
+    const valueColumnData = config.valueColumn ? sigmaData[config.valueColumn] : undefined;
+    const valueColumnName = config.valueColumn ? columnName(config.valueColumn) : 'row count';
+
+    if (config.valueColumn && !valueColumnData) {
+      return null;
+    }
+
+    if (isPathMode) {
+      const stageColumns = config.stageColumns || [];
+      const stageColumnData = stageColumns.map(column => sigmaData[column]);
+
+      if (stageColumnData.some(data => !data)) {
+        return null;
+      }
+
+      const stageColumnNames = stageColumns.map(columnName);
+
+      return {
+        rowCount: stageColumnData[0].length,
+        sourceColumnName: stageColumnNames[0],
+        targetColumnName: stageColumnNames[stageColumnNames.length - 1],
+        valueColumnName: valueColumnName,
+        columnSummary: stageColumnNames.join(' → '),
+        hasData: stageColumnData[0].length > 0
+      };
+    }
+
+    if (!config.sourceColumn || !config.targetColumn) {
       return null;
     }
 
     const sourceColumnData = sigmaData[config.sourceColumn];
     const targetColumnData = sigmaData[config.targetColumn];
-    const valueColumnData = sigmaData[config.valueColumn];
     
-    if (!sourceColumnData || !targetColumnData || !valueColumnData) {
+    if (!sourceColumnData || !targetColumnData) {
       return null;
     }
 
-    // Get column names from columns object using the column IDs
-    const sourceColumnInfo = columns[config.sourceColumn];
-    const targetColumnInfo = columns[config.targetColumn];
-    const valueColumnInfo = columns[config.valueColumn];
-
-    const sourceColumnName = sourceColumnInfo?.name || config.sourceColumn;
-    const targetColumnName = targetColumnInfo?.name || config.targetColumn;
-    const valueColumnName = valueColumnInfo?.name || config.valueColumn;
+    const sourceColumnName = columnName(config.sourceColumn);
+    const targetColumnName = columnName(config.targetColumn);
 
     return {
       rowCount: sourceColumnData.length,
       sourceColumnName: sourceColumnName,
       targetColumnName: targetColumnName,
       valueColumnName: valueColumnName,
-      hasData: sourceColumnData.length > 0 && targetColumnData.length > 0 && valueColumnData.length > 0
+      columnSummary: `${sourceColumnName} → ${targetColumnName}`,
+      hasData: sourceColumnData.length > 0 && targetColumnData.length > 0
     };
-  }, [sigmaData, config.sourceColumn, config.targetColumn, config.valueColumn, columns]);
+  }, [sigmaData, hasRequiredColumns, isPathMode, isEventLogMode, config.sourceColumn, config.targetColumn, config.stageColumns, config.caseColumn, config.timestampColumn, config.activityColumn, config.valueColumn, columns]);
 
   const dataInfo = getDataInfo();
 
+  // Default number format from the value column's type in Sigma
+  const valueColumnFormat = useMemo(
+    () => config.valueColumn ? getColumnNumberFormat(columns[config.valueColumn]) : undefined,
+    [config.valueColumn, columns]
+  );
+
+  // Legend entries come from the data before hiding, so hidden entries can be shown again
+  const legendSettings = (settings.sankey || DEFAULT_SANKEY_SETTINGS).legend;
+  const legendEntries = useMemo(
+    () => legendSettings.show ? buildLegendEntries(sankeyData, legendSettings.groupBy) : [],
+    [sankeyData, legendSettings.show, legendSettings.groupBy]
+  );
+  const formatLegendValue = useMemo(
+    () => createNumberFormatter((settings.sankey || DEFAULT_SANKEY_SETTINGS).format, valueColumnFormat),
+    [settings.sankey, valueColumnFormat]
+  );
+
+  const handleLegendToggle = useCallback((entry: LegendEntry, hide: boolean) => {
+    setViewState(prev => {
+      const names = new Set(entry.nodeNames);
+      const hiddenNodes = prev.hiddenNodes.filter(name => !names.has(name));
+      return { ...prev, hiddenNodes: hide ? [...hiddenNodes, ...entry.nodeNames] : hiddenNodes };
+    });
+  }, []);
+
   // Early return for missing source
   if (!config.source) {
     return (
@@ -203,7 +471,9 @@ const App: React.FC = (): React.JSX.Element => {
                 <ul className="space-y-1">
                   <li>• Source column (where flows originate)</li>
                   <li>• Target column (where flows end)</li>
-                  <li>• Value column (flow quantities)</li>
+                  <li>• Or, in Path mode, one column per stage</li>
+                  <li>• Or, in Event Log mode, case ID, timestamp and activity columns</li>
+                  <li>• Value column (flow quantities, optional - rows are counted without it)</li>
                   <li>• ID column (optional, for filtering)</li>
                 </ul>
               </div>
@@ -275,16 +545,14 @@ const App: React.FC = (): React.JSX.Element => {
   }
 
   // Early return for missing columns
-  if (!config.sourceColumn || !config.targetColumn || !config.valueColumn) {
-    const missingColumns = [];
-    if (!config.sourceColumn) missingColumns.push('Source Column');
-    if (!config.targetColumn) missingColumns.push('Target Column');
-    if (!config.valueColumn) missingColumns.push('Value Column');
+  if (!hasRequiredColumns) {
+    const missingColumns = columnRequirements
+      .filter(column => column.required && !isColumnSelected(config, column.key))
+      .map(column => column.name);
 
-    const selectedColumns = [];
-    if (config.sourceColumn) selectedColumns.push('Source Column ✓');
-    if (config.targetColumn) selectedColumns.push('Target Column ✓');
-    if (config.valueColumn) selectedColumns.push('Value Column ✓');
+    const selectedColumns = columnRequirements
+      .filter(column => column.required && isColumnSelected(config, column.key))
+      .map(column => `${column.name} ✓`);
 
     return (
       <div className="min-h-screen flex items-center justify-center p-10">
@@ -310,13 +578,8 @@ const App: React.FC = (): React.JSX.Element => {
                 </h3>
                 
                 <div className="space-y-3">
-                  {[
-                    { name: 'Source Column', key: 'sourceColumn', required: true },
-                    { name: 'Target Column', key: 'targetColumn', required: true },
-                    { name: 'Value Column', key: 'valueColumn', required: true },
-                    { name: 'ID Column', key: 'idColumn', required: false }
-                  ].map((column) => {
-                    const isSelected = config[column.key as keyof typeof config];
+                  {columnRequirements.map((column) => {
+                    const isSelected = isColumnSelected(config, column.key);
                     return (
                       <div key={column.key} className={`flex items-center gap-3 p-3 rounded-lg border ${isSelected ? 'bg-green-50 border-green-200' : column.required ? 'bg-orange-50 border-orange-200' : 'bg-gray-50 border-gray-200'}`}>
                         {isSelected ? (
@@ -357,31 +620,65 @@ const App: React.FC = (): React.JSX.Element => {
                   Column Mapping Guide
                 </h4>
                 <div className="space-y-4">
-                  <div>
-                    <h5 className="text-sm font-semibold text-blue-700 mb-1">Source Column <span className="text-red-500">*</span></h5>
-                    <p className="text-sm text-muted-foreground">The starting point of each flow (e.g., "Marketing", "Department", "Category")</p>
-                  </div>
-                  <div>
-                    <h5 className="text-sm font-semibold text-green-700 mb-1">Target Column <span className="text-red-500">*</span></h5>
-                    <p className="text-sm text-muted-foreground">The destination of each flow (e.g., "Leads", "Budget", "Subcategory")</p>
-                  </div>
-                  <div>
-                    <h5 className="text-sm font-semibold text-purple-700 mb-1">Value Column <span className="text-red-500">*</span></h5>
-                    <p className="text-sm text-muted-foreground">The quantity or amount flowing (e.g., "Amount", "Count", "Budget")</p>
-                  </div>
-                  <div>
-                    <h5 className="text-sm font-semibold text-gray-700 mb-1">ID Column</h5>
-                    <p className="text-sm text-muted-foreground">Unique identifier for filtering and interaction (optional)</p>
-                  </div>
+                  {isEventLogMode ? (
+                    <>
+                      <div>
+                        <h5 className="text-sm font-semibold text-blue-700 mb-1">Case ID Column <span className="text-red-500">*</span></h5>
+                        <p className="text-sm text-muted-foreground">Groups events into one journey (e.g., "Session ID", "Order ID", "Customer ID")</p>
+                      </div>
+                      <div>
+                        <h5 className="text-sm font-semibold text-green-700 mb-1">Timestamp Column <span className="text-red-500">*</span></h5>
+                        <p className="text-sm text-muted-foreground">Orders the events within each case (e.g., "Event Time")</p>
+                      </div>
+                      <div>
+                        <h5 className="text-sm font-semibold text-purple-700 mb-1">Activity Column <span className="text-red-500">*</span></h5>
+                        <p className="text-sm text-muted-foreground">What happened at each event (e.g., "Page", "Status", "Step")</p>
+                      </div>
+                    </>
+                  ) : isPathMode ? (
+                    <div>
+                      <h5 className="text-sm font-semibold text-blue-700 mb-1">Stage Columns <span className="text-red-500">*</span></h5>
+                      <p className="text-sm text-muted-foreground">Two or more columns in journey order (e.g., "Step 1", "Step 2", "Step 3"). Rows stop flowing at their first empty stage.</p>
+                    </div>
+                  ) : (
+                    <>
+                      <div>
+                        <h5 className="text-sm font-semibold text-blue-700 mb-1">Source Column <span className="text-red-500">*</span></h5>
+                        <p className="text-sm text-muted-foreground">The starting point of each flow (e.g., "Marketing", "Department", "Category")</p>
+                      </div>
+                      <div>
+                        <h5 className="text-sm font-semibold text-green-700 mb-1">Target Column <span className="text-red-500">*</span></h5>
+                        <p className="text-sm text-muted-foreground">The destination of each flow (e.g., "Leads", "Budget", "Subcategory")</p>
+                      </div>
+                      <div>
+                        <h5 className="text-sm font-semibold text-gray-700 mb-1">Source / Target Group Columns</h5>
+                        <p className="text-sm text-muted-foreground">A parent level for sources and targets (e.g., "Region" above "Country"). Groups start collapsed; click one to expand it (optional)</p>
+                      </div>
+                    </>
+                  )}
+                  {!isEventLogMode && (
+                    <>
+                      <div>
+                        <h5 className="text-sm font-semibold text-purple-700 mb-1">Value Column</h5>
+                        <p className="text-sm text-muted-foreground">The quantity or amount flowing (e.g., "Amount", "Count", "Budget"). Leave empty to count rows (optional)</p>
+                      </div>
+                      <div>
+                        <h5 className="text-sm font-semibold text-gray-700 mb-1">ID Column</h5>
+                        <p className="text-sm text-muted-foreground">Unique identifier for filtering and interaction (optional)</p>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
 
               <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
                 <h4 className="font-semibold text-blue-800 mb-3">💡 Quick Tips</h4>
                 <ul className="text-sm text-blue-700 space-y-2">
-                  <li>• Each row represents one flow from source to target</li>
-                  <li>• Values will be aggregated if you have duplicate flows</li>
-                  <li>• Negative values will be treated as zero</li>
+                  <li>• {isEventLogMode
+                    ? 'Each row is one event; transitions between consecutive events in a case become flows'
+                    : isPathMode ? 'Each row represents one journey across the stage columns' : 'Each row represents one flow from source to target'}</li>
+                  <li>• Values will be aggregated if you have duplicate flows (sum by default, see Settings → Data)</li>
+                  <li>• Negative values are dropped unless signed flows are enabled in Settings → Data</li>
                   <li>• Missing values in required columns will be filtered out</li>
                 </ul>
               </div>
@@ -486,14 +783,13 @@ const App: React.FC = (): React.JSX.Element => {
                   <li>• Check for missing or null values in your required columns</li>
                   <li>• Ensure your value column contains numeric data</li>
                   <li>• Verify that source and target columns have matching values across rows</li>
-                  <li>• Remove any circular references (source = target)</li>
+                  <li>• Remove any circular references (source = target), or pick a cycle strategy in Settings → Data</li>
                 </ul>
               </div>
               
               {dataInfo && (
                 <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-600">
-                  <strong>Data Summary:</strong> {dataInfo.rowCount} rows from "{dataInfo.sourceColumnName}", 
-                  "{dataInfo.targetColumnName}", and "{dataInfo.valueColumnName}"
+                  <strong>Data Summary:</strong> {dataInfo.rowCount} rows from {dataInfo.columnSummary} (values: "{dataInfo.valueColumnName}")
                 </div>
               )}
             </div>
@@ -518,22 +814,29 @@ const App: React.FC = (): React.JSX.Element => {
                 </p>
               </div>
 
-              <div className="bg-blue-50 border border-blue-200 rounded-xl p-6 mb-6">
-                <h4 className="font-semibold text-blue-800 mb-3">Possible Reasons:</h4>
-                <ul className="text-sm text-blue-700 space-y-2 text-left">
-                  <li>• All values in your value column might be zero or negative</li>
-                  <li>• Source and target columns might have no matching relationships</li>
-                  <li>• Data might be filtered out due to missing values</li>
-                  <li>• Column selections might not match your intended data structure</li>
-                </ul>
-              </div>
+              {sankeyData.skippedRows && sankeyData.skippedRows.skippedRows > 0 ? (
+                <div className="bg-blue-50 border border-blue-200 rounded-xl p-6 mb-6">
+                  <h4 className="font-semibold text-blue-800 mb-3">Why Rows Were Dropped:</h4>
+                  <p className="text-sm text-blue-700 text-left">{describeSkippedRows(sankeyData.skippedRows)}</p>
+                </div>
+              ) : (
+                <div className="bg-blue-50 border border-blue-200 rounded-xl p-6 mb-6">
+                  <h4 className="font-semibold text-blue-800 mb-3">Possible Reasons:</h4>
+                  <ul className="text-sm text-blue-700 space-y-2 text-left">
+                    <li>• All values in your value column might be zero or negative</li>
+                    <li>• Source and target columns might have no matching relationships</li>
+                    <li>• Data might be filtered out due to missing values</li>
+                    <li>• Column selections might not match your intended data structure</li>
+                  </ul>
+                </div>
+              )}
 
               <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
                 <h4 className="font-medium text-gray-800 mb-2">Data Summary</h4>
                 {dataInfo && (
                   <div className="text-sm text-gray-600 space-y-1">
                     <p><strong>Rows:</strong> {dataInfo.rowCount}</p>
-                    <p><strong>Columns:</strong> {dataInfo.sourceColumnName} → {dataInfo.targetColumnName} (values: {dataInfo.valueColumnName})</p>
+                    <p><strong>Columns:</strong> {dataInfo.columnSummary} (values: {dataInfo.valueColumnName})</p>
                   </div>
                 )}
               </div>
@@ -544,28 +847,43 @@ const App: React.FC = (): React.JSX.Element => {
             </div>
           </div>
         ) : (
-          <div className="w-full h-full relative">
-            <ErrorBoundary>
-              <SankeyChart
-                data={sankeyData}
-                settings={settings.sankey || DEFAULT_SANKEY_SETTINGS}
-                width="100%"
-                onNodeClick={(params) => {
-                  console.log('Node clicked:', params);
-                  // Could be extended to show detailed node information
-                  // or trigger additional actions based on the node data
-                }}
-                onLinkClick={(params) => {
-                  console.log('Link clicked:', params);
-                  // Set the selected ID variable if we have an ID and the link has an ID
-                  if (setSelectedID && params?.data?.id) {
-                    setSelectedID(params.data.id);
-                  }
-                  // Could be extended to show detailed link information
-                  // or trigger filtering/highlighting actions
-                }}
+          <div className={`w-full h-full relative flex ${
+            legendSettings.position === 'top' ? 'flex-col' :
+            legendSettings.position === 'bottom' ? 'flex-col-reverse' :
+            legendSettings.position === 'left' ? 'flex-row' : 'flex-row-reverse'
+          }`}>
+            {legendEntries.length > 0 && (
+              <SankeyLegend
+                entries={legendEntries}
+                hiddenNodes={viewState.hiddenNodes}
+                position={legendSettings.position}
+                formatValue={formatLegendValue}
+                onToggle={handleLegendToggle}
               />
-            </ErrorBoundary>
+            )}
+
+            <div className="flex-1 min-w-0 min-h-0 relative">
+              <ErrorBoundary>
+                <SankeyChart
+                  data={viewData}
+                  settings={chartSettings}
+                  columnFormat={valueColumnFormat}
+                  width="100%"
+                  highlight={highlight}
+                  onSelectionChange={handleSelectionChange}
+                  viewState={viewState}
+                  onViewStateChange={setViewState}
+                  onNodePositionsChange={config.editMode ? handleNodePositionsChange : undefined}
+                />
+              </ErrorBoundary>
+
+              {/* Data quality report for authors */}
+              {config.editMode && sankeyData.skippedRows && (
+                <div className="absolute bottom-2 left-2 z-10">
+                  <DataQualityPanel report={sankeyData.skippedRows} />
+                </div>
+              )}
+            </div>
           </div>
         )}
       </div>
@@ -576,6 +894,11 @@ const App: React.FC = (): React.JSX.Element => {
         currentSettings={settings}
         onSave={handleSettingsSave}
         client={client}
+        data={sankeyData}
+        tooltipColumnNames={tooltipColumns.map(column => column.name)}
+        inputMode={config.inputMode}
+        hasStages={hasStages}
+        columnFormat={valueColumnFormat}
       />
     </div>
   );
@@ -3,9 +3,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { Button } from './components/ui/button';
 import { Input } from './components/ui/input';
 import { Label } from './components/ui/label';
-import { PluginSettings } from './types/sigma';
-import { DEFAULT_SANKEY_SETTINGS } from './lib/sankeyDefaults';
-import { validateTooltipTemplate, migrateTooltipTemplate } from './lib/tooltipFormatter';
+import TooltipTemplateField from './components/TooltipTemplateField';
+import { PluginSettings, SankeyChartData, NodeSelectionRole, InputMode } from './types/sigma';
+import { DEFAULT_SANKEY_SETTINGS, withSankeyDefaults } from './lib/sankeyDefaults';
+import { createTooltipFormatter, createPreviewParams } from './lib/tooltipFormatter';
+import { createNumberFormatter, ColumnNumberFormat } from './lib/numberFormat';
 
 
 export const DEFAULT_SETTINGS: PluginSettings = {
@@ -18,6 +20,11 @@ interface SettingsProps {
   currentSettings: PluginSettings;
   onSave: (settings: PluginSettings) => void;
   client: any; // Keep any for simplicity in template
+  data?: SankeyChartData; // Current chart data, for previews
+  tooltipColumnNames?: string[]; // Extra tooltip columns picked in the editor panel
+  inputMode?: InputMode; // Hides options that don't apply to the mode
+  hasStages?: boolean; // Whether rows carry a stage, for stage identity
+  columnFormat?: ColumnNumberFormat; // Value column's format, for the 'auto' previews
 }
 
 const Settings: React.FC<SettingsProps> = ({ 
@@ -25,44 +32,22 @@ const Settings: React.FC<SettingsProps> = ({
   onClose, 
   currentSettings, 
   onSave, 
-  client 
+  client,
+  data,
+  tooltipColumnNames = [],
+  inputMode,
+  hasStages = true,
+  columnFormat
 }) => {
   const [tempSettings, setTempSettings] = useState<PluginSettings>(currentSettings);
-  const [activeTab, setActiveTab] = useState<'nodes' | 'links' | 'layout' | 'interaction'>('nodes');
+  const [activeTab, setActiveTab] = useState<'nodes' | 'links' | 'layout' | 'interaction' | 'data' | 'format'>('nodes');
 
   // Update temp settings when current settings change
   useEffect(() => {
     const settingsWithDefaults: PluginSettings = {
       ...DEFAULT_SETTINGS,
       ...currentSettings,
-      sankey: {
-        ...DEFAULT_SETTINGS.sankey!,
-        ...(currentSettings.sankey || {}),
-        nodes: {
-          ...DEFAULT_SETTINGS.sankey!.nodes,
-          ...(currentSettings.sankey?.nodes || {}),
-        },
-        links: {
-          ...DEFAULT_SETTINGS.sankey!.links,
-          ...(currentSettings.sankey?.links || {}),
-        },
-        layout: {
-          ...DEFAULT_SETTINGS.sankey!.layout,
-          ...(currentSettings.sankey?.layout || {}),
-        },
-        tooltip: {
-          ...DEFAULT_SETTINGS.sankey!.tooltip,
-          ...(currentSettings.sankey?.tooltip || {}),
-        },
-        interaction: {
-          ...DEFAULT_SETTINGS.sankey!.interaction,
-          ...(currentSettings.sankey?.interaction || {}),
-        },
-        animation: {
-          ...DEFAULT_SETTINGS.sankey!.animation,
-          ...(currentSettings.sankey?.animation || {}),
-        },
-      },
+      sankey: withSankeyDefaults(currentSettings.sankey),
     };
     setTempSettings(settingsWithDefaults);
   }, [currentSettings]);
@@ -98,6 +83,23 @@ const Settings: React.FC<SettingsProps> = ({
       errors.push('Layout iterations must be between 1 and 100');
     }
     
+    // Validate data settings
+    if (settings.sankey?.data.topNTargets && settings.sankey.data.topNTargets < 0) {
+      errors.push('Top N targets must be 0 or more');
+    }
+    if (settings.sankey?.data.minFlowPercent && (settings.sankey.data.minFlowPercent < 0 || settings.sankey.data.minFlowPercent > 100)) {
+      errors.push('Minimum flow must be between 0 and 100%');
+    }
+
+    // Validate format settings
+    const decimals = settings.sankey?.format.decimals;
+    if (decimals !== null && decimals !== undefined && (decimals < 0 || decimals > 10)) {
+      errors.push('Decimal places must be between 0 and 10');
+    }
+    if (settings.sankey?.format.style === 'currency' && !/^[A-Za-z]{3}$/.test(settings.sankey.format.currency)) {
+      errors.push('Currency must be a three-letter code such as USD or EUR');
+    }
+    
     // Validate animation settings
     if (settings.sankey?.animation.duration && (settings.sankey.animation.duration < 0 || settings.sankey.animation.duration > 5000)) {
       errors.push('Animation duration must be between 0 and 5000ms');
@@ -134,24 +136,37 @@ const Settings: React.FC<SettingsProps> = ({
     onClose();
   }, [currentSettings, onClose]);
 
-  // Helper function to migrate tooltip template
-  const handleMigrateTooltip = useCallback((): void => {
-    const currentFormatter = tempSettings.sankey?.tooltip.formatter || DEFAULT_SANKEY_SETTINGS.tooltip.formatter;
-    const migratedFormatter = migrateTooltipTemplate(currentFormatter);
-    
-    if (migratedFormatter !== currentFormatter) {
-      setTempSettings(prev => ({
-        ...prev,
-        sankey: {
-          ...prev.sankey!,
-          tooltip: {
-            ...prev.sankey!.tooltip,
-            formatter: migratedFormatter
-          }
+  // Sample value rendered with the current format settings
+  const formatPreview = createNumberFormatter(withSankeyDefaults(tempSettings.sankey).format, columnFormat)(1234567.891);
+
+  const setTooltipTemplate = useCallback((key: 'linkFormatter' | 'nodeFormatter', value: string): void => {
+    setTempSettings(prev => ({
+      ...prev,
+      sankey: {
+        ...prev.sankey!,
+        tooltip: {
+          ...prev.sankey!.tooltip,
+          [key]: value
         }
-      }));
+      }
+    }));
+  }, []);
+
+  // Render the tooltip templates against a real link and node from the current data
+  const tooltipPreview = (dataType: 'node' | 'edge'): string | null => {
+    const params = data ? createPreviewParams(data, dataType) : null;
+    if (!params) {
+      return null;
     }
-  }, [tempSettings]);
+
+    const sankeySettings = withSankeyDefaults(tempSettings.sankey);
+    const formatter = createTooltipFormatter(
+      { link: sankeySettings.tooltip.linkFormatter, node: sankeySettings.tooltip.nodeFormatter },
+      createNumberFormatter(sankeySettings.format, columnFormat),
+      sankeySettings.format.locale
+    );
+    return formatter(params);
+  };
 
 
 
@@ -196,6 +211,22 @@ const Settings: React.FC<SettingsProps> = ({
           >
             Interaction
           </Button>
+          <Button
+            variant={activeTab === 'data' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setActiveTab('data')}
+            className="rounded-b-none whitespace-nowrap"
+          >
+            Data
+          </Button>
+          <Button
+            variant={activeTab === 'format' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setActiveTab('format')}
+            className="rounded-b-none whitespace-nowrap"
+          >
+            Format
+          </Button>
         </div>
 
         {activeTab === 'nodes' && (
@@ -306,6 +337,28 @@ const Settings: React.FC<SettingsProps> = ({
                       }))}
                     />
                   </div>
+                  <div className="col-span-2 flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      id="labelShowValue"
+                      checked={tempSettings.sankey?.nodes.label.showValue === true}
+                      onChange={(e) => setTempSettings(prev => ({
+                        ...prev,
+                        sankey: {
+                          ...prev.sankey!,
+                          nodes: {
+                            ...prev.sankey!.nodes,
+                            label: {
+                              ...prev.sankey!.nodes.label,
+                              showValue: e.target.checked
+                            }
+                          }
+                        }
+                      }))}
+                      className="w-4 h-4"
+                    />
+                    <Label htmlFor="labelShowValue">Show node values (uses the Format tab)</Label>
+                  </div>
                 </div>
               )}
             </div>
@@ -393,6 +446,68 @@ const Settings: React.FC<SettingsProps> = ({
                   Gradient creates color transitions along the links
                 </p>
               </div>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="directionColors"
+                  checked={tempSettings.sankey?.links.directionColors === true}
+                  onChange={(e) => setTempSettings(prev => ({
+                    ...prev,
+                    sankey: {
+                      ...prev.sankey!,
+                      links: {
+                        ...prev.sankey!.links,
+                        directionColors: e.target.checked
+                      }
+                    }
+                  }))}
+                  className="w-4 h-4"
+                />
+                <Label htmlFor="directionColors" className="font-medium">Color outflows and inflows separately</Label>
+              </div>
+              {tempSettings.sankey?.links.directionColors && (
+                <div className="grid grid-cols-2 gap-4 ml-7">
+                  <div className="space-y-2">
+                    <Label htmlFor="outflowColor">Outflow Color</Label>
+                    <Input
+                      id="outflowColor"
+                      type="color"
+                      value={tempSettings.sankey?.links.outflowColor || DEFAULT_SANKEY_SETTINGS.links.outflowColor}
+                      onChange={(e) => setTempSettings(prev => ({
+                        ...prev,
+                        sankey: {
+                          ...prev.sankey!,
+                          links: {
+                            ...prev.sankey!.links,
+                            outflowColor: e.target.value
+                          }
+                        }
+                      }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="inflowColor">Inflow Color</Label>
+                    <Input
+                      id="inflowColor"
+                      type="color"
+                      value={tempSettings.sankey?.links.inflowColor || DEFAULT_SANKEY_SETTINGS.links.inflowColor}
+                      onChange={(e) => setTempSettings(prev => ({
+                        ...prev,
+                        sankey: {
+                          ...prev.sankey!,
+                          links: {
+                            ...prev.sankey!.links,
+                            inflowColor: e.target.value
+                          }
+                        }
+                      }))}
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    Inflows are links reversed from negative values. Requires signed flows in the Data tab
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -446,6 +561,39 @@ const Settings: React.FC<SettingsProps> = ({
                     <option value="justify">Justify</option>
                   </select>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="nodeSort">Node Order</Label>
+                  <select
+                    id="nodeSort"
+                    value={tempSettings.sankey?.layout.nodeSort || DEFAULT_SANKEY_SETTINGS.layout.nodeSort}
+                    onChange={(e) => setTempSettings(prev => ({
+                      ...prev,
+                      sankey: {
+                        ...prev.sankey!,
+                        layout: {
+                          ...prev.sankey!.layout,
+                          nodeSort: e.target.value as any
+                        }
+                      }
+                    }))}
+                    className="block w-full border rounded px-3 py-2 text-sm bg-background text-foreground"
+                  >
+                    <option value="auto">Auto (shortest links)</option>
+                    <option value="valueDesc">Value, largest first</option>
+                    <option value="valueAsc">Value, smallest first</option>
+                    <option value="alphabetical">Alphabetical</option>
+                    {/* Path mode rows hold a node per stage, so there is no sort order column */}
+                    {inputMode !== 'Path' && <option value="column">Sort order column</option>}
+                  </select>
+                </div>
+                {tempSettings.sankey?.layout.nodeSort && tempSettings.sankey.layout.nodeSort !== 'auto' && (
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    {tempSettings.sankey.layout.nodeSort === 'column'
+                      ? 'Nodes follow the Node and Target Sort Order columns, by number or text; nodes without a value come last. '
+                      : ''}
+                    A fixed order turns off layout iterations, so nodes stay in place between refreshes
+                  </p>
+                )}
               </div>
             </div>
 
@@ -553,6 +701,81 @@ const Settings: React.FC<SettingsProps> = ({
               </div>
             </div>
 
+            {/* Legend */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">Legend</h4>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="legendShow"
+                  checked={tempSettings.sankey?.legend.show || false}
+                  onChange={(e) => setTempSettings(prev => ({
+                    ...prev,
+                    sankey: {
+                      ...prev.sankey!,
+                      legend: {
+                        ...prev.sankey!.legend,
+                        show: e.target.checked
+                      }
+                    }
+                  }))}
+                  className="w-4 h-4"
+                />
+                <Label htmlFor="legendShow" className="font-medium">Show legend</Label>
+              </div>
+              {tempSettings.sankey?.legend.show && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="legendPosition">Position</Label>
+                    <select
+                      id="legendPosition"
+                      value={tempSettings.sankey?.legend.position || DEFAULT_SANKEY_SETTINGS.legend.position}
+                      onChange={(e) => setTempSettings(prev => ({
+                        ...prev,
+                        sankey: {
+                          ...prev.sankey!,
+                          legend: {
+                            ...prev.sankey!.legend,
+                            position: e.target.value as any
+                          }
+                        }
+                      }))}
+                      className="block w-full border rounded px-3 py-2 text-sm bg-background text-foreground"
+                    >
+                      <option value="top">Top</option>
+                      <option value="bottom">Bottom</option>
+                      <option value="left">Left</option>
+                      <option value="right">Right</option>
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="legendGroupBy">Entries</Label>
+                    <select
+                      id="legendGroupBy"
+                      value={tempSettings.sankey?.legend.groupBy || DEFAULT_SANKEY_SETTINGS.legend.groupBy}
+                      onChange={(e) => setTempSettings(prev => ({
+                        ...prev,
+                        sankey: {
+                          ...prev.sankey!,
+                          legend: {
+                            ...prev.sankey!.legend,
+                            groupBy: e.target.value as any
+                          }
+                        }
+                      }))}
+                      className="block w-full border rounded px-3 py-2 text-sm bg-background text-foreground"
+                    >
+                      <option value="node">Nodes</option>
+                      <option value="category">Categories</option>
+                    </select>
+                  </div>
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    Viewers click an entry to hide or show its nodes. Categories come from the Node Category column; nodes without one are listed by name
+                  </p>
+                </div>
+              )}
+            </div>
+
             {/* Advanced Layout */}
             <div className="space-y-4">
               <h4 className="text-sm font-medium">Advanced</h4>
@@ -579,6 +802,34 @@ const Settings: React.FC<SettingsProps> = ({
                   Higher values improve layout quality but increase processing time
                 </p>
               </div>
+              <div className="space-y-2">
+                <Label>Manual Node Positions</Label>
+                <div className="flex items-center gap-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={Object.keys(tempSettings.sankey?.layout.nodePositions || {}).length === 0}
+                    onClick={() => setTempSettings(prev => ({
+                      ...prev,
+                      sankey: {
+                        ...prev.sankey!,
+                        layout: {
+                          ...prev.sankey!.layout,
+                          nodePositions: {}
+                        }
+                      }
+                    }))}
+                  >
+                    Reset
+                  </Button>
+                  <span className="text-xs text-muted-foreground">
+                    {Object.keys(tempSettings.sankey?.layout.nodePositions || {}).length} node(s) placed by hand
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  In edit mode, drag nodes up and down within their level to place them; positions are saved with the config
+                </p>
+              </div>
             </div>
           </div>
         )}
@@ -609,65 +860,29 @@ const Settings: React.FC<SettingsProps> = ({
               </div>
 
               {tempSettings.sankey?.tooltip.show !== false && (
-                <div className="space-y-3">
-                  <div className="space-y-2">
-                    <Label htmlFor="tooltipFormatter">Tooltip Format</Label>
-                    <Input
-                      id="tooltipFormatter"
-                      type="text"
-                      value={tempSettings.sankey?.tooltip.formatter || DEFAULT_SANKEY_SETTINGS.tooltip.formatter}
-                      onChange={(e) => setTempSettings(prev => ({
-                        ...prev,
-                        sankey: {
-                          ...prev.sankey!,
-                          tooltip: {
-                            ...prev.sankey!.tooltip,
-                            formatter: e.target.value
-                          }
-                        }
-                      }))}
-                      placeholder="Source: {source} → Target: {target}<br/>Value: {value}<br/>ID: {id}"
-                    />
-                    <p className="text-xs text-muted-foreground">
-                      Available variables: {"{source}"}, {"{target}"}, {"{value}"}, {"{id}"}, {"{name}"}
-                    </p>
-                    
-                    {/* Template validation and migration */}
-                    {(() => {
-                      const currentFormatter = tempSettings.sankey?.tooltip.formatter || DEFAULT_SANKEY_SETTINGS.tooltip.formatter;
-                      const validation = validateTooltipTemplate(currentFormatter);
-                      const needsMigration = currentFormatter.includes('{data.');
-                      
-                      return (
-                        <>
-                          {validation.warnings.length > 0 && (
-                            <div className="text-xs text-amber-600 space-y-1">
-                              {validation.warnings.map((warning, index) => (
-                                <div key={index}>⚠️ {warning}</div>
-                              ))}
-                            </div>
-                          )}
-                          
-                          {needsMigration && (
-                            <div className="flex items-center gap-2">
-                              <Button
-                                type="button"
-                                size="sm"
-                                variant="outline"
-                                onClick={handleMigrateTooltip}
-                                className="text-xs"
-                              >
-                                Migrate Template
-                              </Button>
-                              <span className="text-xs text-muted-foreground">
-                                Remove {"{data.}"} prefixes for cleaner syntax
-                              </span>
-                            </div>
-                          )}
-                        </>
-                      );
-                    })()}
-                  </div>
+                <div className="space-y-4">
+                  <TooltipTemplateField
+                    id="linkTooltipFormatter"
+                    label="Link Tooltip"
+                    dataType="edge"
+                    value={tempSettings.sankey?.tooltip.linkFormatter ?? DEFAULT_SANKEY_SETTINGS.tooltip.linkFormatter}
+                    placeholder="{source} → {target}<br/>Value: {value}<br/>ID: {id}"
+                    preview={tooltipPreview('edge')}
+                    columnNames={tooltipColumnNames}
+                    onChange={(value) => setTooltipTemplate('linkFormatter', value)}
+                  />
+                  <TooltipTemplateField
+                    id="nodeTooltipFormatter"
+                    label="Node Tooltip"
+                    dataType="node"
+                    value={tempSettings.sankey?.tooltip.nodeFormatter ?? DEFAULT_SANKEY_SETTINGS.tooltip.nodeFormatter}
+                    placeholder="{name}<br/>In: {inflow}, Out: {outflow}"
+                    preview={tooltipPreview('node')}
+                    onChange={(value) => setTooltipTemplate('nodeFormatter', value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Format with pipes, e.g. {"{value|currency:EUR|compact}"}, {"{percentOfSource|percent:1}"}, {"{id|default:n/a}"}. Show parts conditionally with {"{#if id}…{else}…{/if}"}
+                  </p>
                 </div>
               )}
             </div>
@@ -698,13 +913,99 @@ const Settings: React.FC<SettingsProps> = ({
                   <option value="none">None</option>
                   <option value="self">Self only</option>
                   <option value="adjacency">Connected nodes/links</option>
+                  <option value="trace">Trace full path (all upstream and downstream flows)</option>
                 </select>
                 <p className="text-xs text-muted-foreground">
-                  Controls which elements are highlighted when hovering
+                  Controls which elements are highlighted when hovering. Trace highlights a node's whole lineage, with each link as strong as the share of its flow passing through the node; selecting one node keeps its trace shown
                 </p>
               </div>
             </div>
 
+            {/* Zoom Settings */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">Zoom</h4>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="zoomEnabled"
+                  checked={tempSettings.sankey?.interaction.zoom !== false}
+                  onChange={(e) => setTempSettings(prev => ({
+                    ...prev,
+                    sankey: {
+                      ...prev.sankey!,
+                      interaction: {
+                        ...prev.sankey!.interaction,
+                        zoom: e.target.checked
+                      }
+                    }
+                  }))}
+                  className="w-4 h-4"
+                />
+                <Label htmlFor="zoomEnabled" className="font-medium">Allow zoom and pan</Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Scroll to zoom, drag the background to pan, double-click it to see the whole diagram again. A minimap shows where you are while zoomed in
+              </p>
+            </div>
+
+            {/* Selection Settings */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">Selection</h4>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="selectEnabled"
+                  checked={!tempSettings.sankey?.interaction.select.disabled}
+                  onChange={(e) => setTempSettings(prev => ({
+                    ...prev,
+                    sankey: {
+                      ...prev.sankey!,
+                      interaction: {
+                        ...prev.sankey!.interaction,
+                        select: {
+                          ...prev.sankey!.interaction.select,
+                          disabled: !e.target.checked
+                        }
+                      }
+                    }
+                  }))}
+                  className="w-4 h-4"
+                />
+                <Label htmlFor="selectEnabled" className="font-medium">Allow selecting links and nodes</Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Click to select, Ctrl/Shift-click to select several. Link IDs go to the Selected ID control and node names to the Selected Node control, as lists
+              </p>
+
+              {!tempSettings.sankey?.interaction.select.disabled && (
+                <div className="space-y-2">
+                  <Label htmlFor="nodeSelection">Selected Node Control</Label>
+                  <select
+                    id="nodeSelection"
+                    value={tempSettings.sankey?.interaction.nodeSelection || DEFAULT_SANKEY_SETTINGS.interaction.nodeSelection}
+                    onChange={(e) => setTempSettings(prev => ({
+                      ...prev,
+                      sankey: {
+                        ...prev.sankey!,
+                        interaction: {
+                          ...prev.sankey!.interaction,
+                          nodeSelection: e.target.value as NodeSelectionRole
+                        }
+                      }
+                    }))}
+                    className="block w-full border rounded px-3 py-2 text-sm bg-background text-foreground"
+                  >
+                    <option value="either">Any node</option>
+                    <option value="source">Node as source (has outgoing flows)</option>
+                    <option value="target">Node as target (has incoming flows)</option>
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Match the column the control filters on: nodes that can't appear in it are not selectable
+                  </p>
+                </div>
+              )}
+            </div>
+
             {/* Animation Settings */}
             <div className="space-y-4">
               <h4 className="text-sm font-medium">Animation</h4>
@@ -755,6 +1056,435 @@ const Settings: React.FC<SettingsProps> = ({
           </div>
         )}
 
+        {activeTab === 'data' && (
+          <div className="space-y-6 pt-4">
+            {/* Aggregation */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">Aggregation</h4>
+              <div className="space-y-2">
+                <Label htmlFor="aggregation">Combine Duplicate Flows By</Label>
+                <select
+                  id="aggregation"
+                  value={tempSettings.sankey?.data.aggregation || DEFAULT_SANKEY_SETTINGS.data.aggregation}
+                  onChange={(e) => setTempSettings(prev => ({
+                    ...prev,
+                    sankey: {
+                      ...prev.sankey!,
+                      data: {
+                        ...prev.sankey!.data,
+                        aggregation: e.target.value as any
+                      }
+                    }
+                  }))}
+                  className="block w-full border rounded px-3 py-2 text-sm bg-background text-foreground"
+                >
+                  <option value="sum">Sum</option>
+                  <option value="count">Count of rows</option>
+                  <option value="distinctCount">Distinct count of ID column</option>
+                  <option value="average">Average</option>
+                  <option value="min">Minimum</option>
+                  <option value="max">Maximum</option>
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  Applies when several rows share a source and target. Without a Value Column every row counts as 1
+                </p>
+              </div>
+            </div>
+
+            {/* Signed Flows */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">Signed Flows</h4>
+              <div className="space-y-2">
+                <Label htmlFor="signedFlows">Negative Values</Label>
+                <select
+                  id="signedFlows"
+                  value={tempSettings.sankey?.data.signedFlows || DEFAULT_SANKEY_SETTINGS.data.signedFlows}
+                  onChange={(e) => setTempSettings(prev => ({
+                    ...prev,
+                    sankey: {
+                      ...prev.sankey!,
+                      data: {
+                        ...prev.sankey!.data,
+                        signedFlows: e.target.value as any
+                      }
+                    }
+                  }))}
+                  className="block w-full border rounded px-3 py-2 text-sm bg-background text-foreground"
+                >
+                  <option value="drop">Drop rows with negative values</option>
+                  <option value="reverse">Reverse direction</option>
+                  <option value="net">Reverse and net opposite pairs</option>
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  Reversing turns -50 from A to B into 50 from B to A. Netting then merges A → B and B → A into one link carrying the difference
+                </p>
+              </div>
+            </div>
+
+            {/* Cycle Handling */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">Cycles</h4>
+              <div className="space-y-2">
+                <Label htmlFor="cycleStrategy">Cycle Handling</Label>
+                <select
+                  id="cycleStrategy"
+                  value={tempSettings.sankey?.data.cycleStrategy || DEFAULT_SANKEY_SETTINGS.data.cycleStrategy}
+                  onChange={(e) => setTempSettings(prev => ({
+                    ...prev,
+                    sankey: {
+                      ...prev.sankey!,
+                      data: {
+                        ...prev.sankey!.data,
+                        cycleStrategy: e.target.value as any
+                      }
+                    }
+                  }))}
+                  className="block w-full border rounded px-3 py-2 text-sm bg-background text-foreground"
+                >
+                  <option value="none">Report as validation error</option>
+                  <option value="dropBackEdges">Drop links that close a cycle</option>
+                  <option value="splitNodes">Split repeated nodes into stage copies</option>
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  Sankey diagrams can't show flows that loop back (A → B → A)
+                </p>
+              </div>
+            </div>
+
+            {/* Small Flows */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">Small Flows</h4>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="topNTargets">Top Targets per Source</Label>
+                  <Input
+                    id="topNTargets"
+                    type="number"
+                    min="0"
+                    value={tempSettings.sankey?.data.topNTargets ?? DEFAULT_SANKEY_SETTINGS.data.topNTargets}
+                    onChange={(e) => setTempSettings(prev => ({
+                      ...prev,
+                      sankey: {
+                        ...prev.sankey!,
+                        data: {
+                          ...prev.sankey!.data,
+                          topNTargets: parseInt(e.target.value) || 0
+                        }
+                      }
+                    }))}
+                  />
+                  <p className="text-xs text-muted-foreground">0 = show all targets</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="minFlowPercent">Minimum Flow (%)</Label>
+                  <Input
+                    id="minFlowPercent"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    value={tempSettings.sankey?.data.minFlowPercent ?? DEFAULT_SANKEY_SETTINGS.data.minFlowPercent}
+                    onChange={(e) => setTempSettings(prev => ({
+                      ...prev,
+                      sankey: {
+                        ...prev.sankey!,
+                        data: {
+                          ...prev.sankey!.data,
+                          minFlowPercent: parseFloat(e.target.value) || 0
+                        }
+                      }
+                    }))}
+                  />
+                  <p className="text-xs text-muted-foreground">0 = no minimum</p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="minFlowBasis">Minimum Flow Measured Against</Label>
+                <select
+                  id="minFlowBasis"
+                  value={tempSettings.sankey?.data.minFlowBasis || DEFAULT_SANKEY_SETTINGS.data.minFlowBasis}
+                  onChange={(e) => setTempSettings(prev => ({
+                    ...prev,
+                    sankey: {
+                      ...prev.sankey!,
+                      data: {
+                        ...prev.sankey!.data,
+                        minFlowBasis: e.target.value as any
+                      }
+                    }
+                  }))}
+                  className="block w-full border rounded px-3 py-2 text-sm bg-background text-foreground"
+                >
+                  <option value="total">Total of all flows</option>
+                  <option value="source">Source's outflow</option>
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  Filtered flows roll up into an "Other" node per source, so totals still add up
+                </p>
+              </div>
+            </div>
+
+            {/* Node Identity */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">Node Identity</h4>
+              <div className="space-y-2">
+                <Label htmlFor="nodeIdentity">Identify Nodes By</Label>
+                <select
+                  id="nodeIdentity"
+                  value={tempSettings.sankey?.data.nodeIdentity || DEFAULT_SANKEY_SETTINGS.data.nodeIdentity}
+                  onChange={(e) => setTempSettings(prev => ({
+                    ...prev,
+                    sankey: {
+                      ...prev.sankey!,
+                      data: {
+                        ...prev.sankey!.data,
+                        nodeIdentity: e.target.value as any
+                      }
+                    }
+                  }))}
+                  className="block w-full border rounded px-3 py-2 text-sm bg-background text-foreground"
+                >
+                  <option value="name">Name only</option>
+                  <option value="stage" disabled={!hasStages}>Name and stage</option>
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  Name and stage keeps "Homepage" at step 1 and step 3 as separate nodes. Stages come from the Stage/Level Column, the column order in Path mode, or the step within a case in Event Log mode
+                  {!hasStages && '. Pick a Stage/Level Column in the editor panel to use it'}
+                </p>
+              </div>
+            </div>
+
+            {/* Tooltip Columns */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">Tooltip Columns</h4>
+              {tooltipColumnNames.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  Pick Tooltip Columns in the editor panel to show extra fields on link tooltips with {"{col:Column Name}"}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {tooltipColumnNames.map(column => (
+                    <div key={column} className="grid grid-cols-2 gap-4 items-center">
+                      <Label htmlFor={`tooltipColumn-${column}`} className="truncate">{column}</Label>
+                      <select
+                        id={`tooltipColumn-${column}`}
+                        value={tempSettings.sankey?.data.tooltipColumnAggregation?.[column] || 'auto'}
+                        onChange={(e) => setTempSettings(prev => ({
+                          ...prev,
+                          sankey: {
+                            ...prev.sankey!,
+                            data: {
+                              ...prev.sankey!.data,
+                              tooltipColumnAggregation: {
+                                ...prev.sankey!.data.tooltipColumnAggregation,
+                                [column]: e.target.value as any
+                              }
+                            }
+                          }
+                        }))}
+                        className="block w-full border rounded px-3 py-2 text-sm bg-background text-foreground"
+                      >
+                        <option value="auto">Auto (sum numbers, list text)</option>
+                        <option value="sum">Sum</option>
+                        <option value="average">Average</option>
+                        <option value="first">First value</option>
+                        <option value="distinct">Distinct list</option>
+                      </select>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    How each column combines across the rows of one link
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Event Log */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">Event Log</h4>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="addStartEndNodes"
+                  checked={tempSettings.sankey?.data.addStartEndNodes !== false}
+                  onChange={(e) => setTempSettings(prev => ({
+                    ...prev,
+                    sankey: {
+                      ...prev.sankey!,
+                      data: {
+                        ...prev.sankey!.data,
+                        addStartEndNodes: e.target.checked
+                      }
+                    }
+                  }))}
+                  className="w-4 h-4"
+                />
+                <Label htmlFor="addStartEndNodes" className="font-medium">Add Start and End nodes to each case</Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Only applies when the Input Mode is Event Log
+              </p>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'format' && (
+          <div className="space-y-6 pt-4">
+            {/* Number Format */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">Number Format</h4>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="formatStyle">Style</Label>
+                  <select
+                    id="formatStyle"
+                    value={tempSettings.sankey?.format.style || DEFAULT_SANKEY_SETTINGS.format.style}
+                    onChange={(e) => setTempSettings(prev => ({
+                      ...prev,
+                      sankey: {
+                        ...prev.sankey!,
+                        format: {
+                          ...prev.sankey!.format,
+                          style: e.target.value as any
+                        }
+                      }
+                    }))}
+                    className="block w-full border rounded px-3 py-2 text-sm bg-background text-foreground"
+                  >
+                    <option value="auto">Auto (from the Value Column)</option>
+                    <option value="number">Number</option>
+                    <option value="currency">Currency</option>
+                    <option value="percent">Percent</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="formatDecimals">Decimal Places</Label>
+                  <Input
+                    id="formatDecimals"
+                    type="number"
+                    min="0"
+                    max="10"
+                    placeholder="Auto"
+                    value={tempSettings.sankey?.format.decimals ?? ''}
+                    onChange={(e) => setTempSettings(prev => ({
+                      ...prev,
+                      sankey: {
+                        ...prev.sankey!,
+                        format: {
+                          ...prev.sankey!.format,
+                          decimals: e.target.value === '' ? null : parseInt(e.target.value)
+                        }
+                      }
+                    }))}
+                  />
+                </div>
+                {tempSettings.sankey?.format.style === 'currency' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="formatCurrency">Currency</Label>
+                    <Input
+                      id="formatCurrency"
+                      maxLength={3}
+                      value={tempSettings.sankey?.format.currency || ''}
+                      onChange={(e) => setTempSettings(prev => ({
+                        ...prev,
+                        sankey: {
+                          ...prev.sankey!,
+                          format: {
+                            ...prev.sankey!.format,
+                            currency: e.target.value.toUpperCase()
+                          }
+                        }
+                      }))}
+                      placeholder="USD"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="formatLocale">Locale</Label>
+                  <Input
+                    id="formatLocale"
+                    value={tempSettings.sankey?.format.locale || ''}
+                    onChange={(e) => setTempSettings(prev => ({
+                      ...prev,
+                      sankey: {
+                        ...prev.sankey!,
+                        format: {
+                          ...prev.sankey!.format,
+                          locale: e.target.value.trim()
+                        }
+                      }
+                    }))}
+                    placeholder="Browser default (e.g. en-US, de-DE)"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="formatCompact"
+                  checked={tempSettings.sankey?.format.compact === true}
+                  onChange={(e) => setTempSettings(prev => ({
+                    ...prev,
+                    sankey: {
+                      ...prev.sankey!,
+                      format: {
+                        ...prev.sankey!.format,
+                        compact: e.target.checked
+                      }
+                    }
+                  }))}
+                  className="w-4 h-4"
+                />
+                <Label htmlFor="formatCompact" className="font-medium">Compact notation (1.2K, 3.4M)</Label>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="formatPrefix">Prefix</Label>
+                  <Input
+                    id="formatPrefix"
+                    value={tempSettings.sankey?.format.prefix || ''}
+                    onChange={(e) => setTempSettings(prev => ({
+                      ...prev,
+                      sankey: {
+                        ...prev.sankey!,
+                        format: {
+                          ...prev.sankey!.format,
+                          prefix: e.target.value
+                        }
+                      }
+                    }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="formatSuffix">Suffix</Label>
+                  <Input
+                    id="formatSuffix"
+                    value={tempSettings.sankey?.format.suffix || ''}
+                    onChange={(e) => setTempSettings(prev => ({
+                      ...prev,
+                      sankey: {
+                        ...prev.sankey!,
+                        format: {
+                          ...prev.sankey!.format,
+                          suffix: e.target.value
+                        }
+                      }
+                    }))}
+                    placeholder="e.g. units"
+                  />
+                </div>
+              </div>
+              <div className="p-3 bg-muted rounded text-sm">
+                <span className="text-muted-foreground">Preview: </span>
+                <span className="font-medium">{formatPreview}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Applies to tooltip values and node labels. Auto follows the Value Column's type in Sigma (no decimals for whole numbers)
+              </p>
+            </div>
+          </div>
+        )}
+
 
         <DialogFooter className="flex gap-2">
           <Button variant="outline" onClick={handleCancel}>
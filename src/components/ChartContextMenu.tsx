@@ -0,0 +1,96 @@
+import React, { useEffect, useRef } from 'react';
+
+export interface ContextMenuItem {
+  label: string;
+  onSelect: () => void;
+}
+
+interface ChartContextMenuProps {
+  x: number; // Position within the chart container, in pixels
+  y: number;
+  title?: string;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+/**
+ * Copy text, falling back to a hidden text area where the Clipboard API is blocked
+ * (e.g. an iframe without clipboard permission)
+ */
+export function copyToClipboard(text: string): void {
+  const fallback = () => {
+    const textArea = document.createElement('textarea');
+    textArea.value = text;
+    textArea.style.position = 'fixed';
+    textArea.style.opacity = '0';
+    document.body.appendChild(textArea);
+    textArea.select();
+    try {
+      document.execCommand('copy');
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+    document.body.removeChild(textArea);
+  };
+
+  if (navigator.clipboard?.writeText) {
+    navigator.clipboard.writeText(text).catch(fallback);
+  } else {
+    fallback();
+  }
+}
+
+// Menu opened by right-clicking a node or link; closes on outside click, scroll or Escape
+const ChartContextMenu: React.FC<ChartContextMenuProps> = ({ x, y, title, items, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handlePointerDown = (event: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('wheel', onClose);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('wheel', onClose);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      className="absolute z-30 min-w-[12rem] max-w-xs bg-white border rounded shadow-md py-1 text-sm"
+      style={{ left: x, top: y }}
+      onContextMenu={(event) => event.preventDefault()}
+    >
+      {title && <div className="px-3 py-1 text-xs text-muted-foreground truncate border-b mb-1">{title}</div>}
+      {items.map(item => (
+        <button
+          key={item.label}
+          type="button"
+          role="menuitem"
+          onClick={() => {
+            item.onSelect();
+            onClose();
+          }}
+          className="w-full text-left px-3 py-1.5 hover:bg-gray-100"
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ChartContextMenu;
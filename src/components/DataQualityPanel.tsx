@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { SkippedRowReport, SkipReason } from '../types/sigma';
+
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  emptySource: 'empty source',
+  emptyTarget: 'empty target',
+  incompletePath: 'fewer than two stages',
+  emptyCase: 'empty case ID',
+  emptyActivity: 'empty activity',
+  singleActivityCase: 'single-activity case (needs Start and End nodes)',
+  missingValue: 'empty value',
+  nonNumericValue: 'non-numeric value',
+  nonPositiveValue: 'zero or negative value',
+};
+
+/**
+ * Summarise a skipped-row report, e.g. "412 rows dropped: 300 empty target, 112 zero or negative value"
+ */
+export const describeSkippedRows = (report: SkippedRowReport): string => {
+  const reasons = (Object.keys(report.reasons) as SkipReason[])
+    .sort((a, b) => report.reasons[b]!.count - report.reasons[a]!.count)
+    .map(reason => `${report.reasons[reason]!.count} ${SKIP_REASON_LABELS[reason]}`);
+
+  return `${report.skippedRows} of ${report.totalRows} row${report.totalRows === 1 ? '' : 's'} dropped: ${reasons.join(', ')}`;
+};
+
+interface DataQualityPanelProps {
+  report: SkippedRowReport;
+}
+
+// Edit-mode summary of rows the transform could not turn into flows
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ report }) => {
+  const [expanded, setExpanded] = useState<boolean>(false);
+
+  if (report.skippedRows === 0) {
+    return null;
+  }
+
+  const reasons = (Object.keys(report.reasons) as SkipReason[])
+    .sort((a, b) => report.reasons[b]!.count - report.reasons[a]!.count);
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg shadow-sm text-sm text-yellow-800 max-w-md">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left"
+      >
+        <AlertTriangle className="h-4 w-4 flex-shrink-0 text-yellow-600" />
+        <span className="flex-1">{describeSkippedRows(report)}</span>
+        {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {expanded && (
+        <ul className="px-3 pb-3 space-y-1 text-xs text-yellow-700">
+          {reasons.map(reason => (
+            <li key={reason}>
+              <strong>{report.reasons[reason]!.count}</strong> {SKIP_REASON_LABELS[reason]}
+              {' '}(e.g. row{report.reasons[reason]!.sampleRows.length === 1 ? '' : 's'} {report.reasons[reason]!.sampleRows.map(row => row + 1).join(', ')})
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { fuzzySearch } from '../lib/fuzzyMatch';
+
+export interface SearchableNode {
+  name: string; // Identity
+  label: string; // Name as shown
+  detail?: string; // Tells nodes with the same label apart, e.g. their stage
+}
+
+interface NodeSearchProps {
+  nodes: SearchableNode[];
+  onFocusNode: (name: string | null) => void; // Reveal a node, or null when the search ends
+}
+
+// How many matches are listed under the search field
+const MAX_RESULTS = 8;
+
+// Search field over the chart: matches node names fuzzily, arrow keys cycle through the
+// matches and reveal each one, Escape closes
+const NodeSearch: React.FC<NodeSearchProps> = ({ nodes, onFocusNode }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [query, setQuery] = useState<string>('');
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const matches = useMemo(
+    () => fuzzySearch(nodes, query, node => node.label, MAX_RESULTS).map(match => match.item),
+    [nodes, query]
+  );
+
+  // Ctrl/Cmd+F opens the search while the pointer or focus is in the plugin
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'f') {
+        event.preventDefault();
+        setIsOpen(true);
+        inputRef.current?.focus();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  const reveal = (index: number) => {
+    setActiveIndex(index);
+    onFocusNode(matches[index]?.name ?? null);
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery('');
+    setActiveIndex(-1);
+    onFocusNode(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      close();
+    } else if (matches.length === 0) {
+      return;
+    } else if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      reveal((activeIndex + 1) % matches.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      reveal((activeIndex - 1 + matches.length) % matches.length);
+    } else if (event.key === 'Enter') {
+      reveal(Math.max(activeIndex, 0));
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        title="Search nodes (Ctrl+F)"
+        className="p-1.5 bg-white/90 border rounded shadow-sm hover:bg-gray-100"
+      >
+        <Search className="h-4 w-4" />
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-64 bg-white/95 border rounded shadow-sm text-sm">
+      <div className="flex items-center gap-1 px-2 py-1">
+        <Search className="h-4 w-4 text-muted-foreground shrink-0" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(-1);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Search nodes"
+          aria-label="Search nodes"
+          className="flex-1 min-w-0 bg-transparent outline-none"
+        />
+        {query && (
+          <span className="text-xs text-muted-foreground shrink-0">
+            {matches.length === 0 ? 'No matches' : `${Math.max(activeIndex, 0) + 1}/${matches.length}`}
+          </span>
+        )}
+        <button type="button" onClick={close} title="Close search" className="p-0.5 hover:bg-gray-100 rounded">
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+
+      {query && matches.length > 0 && (
+        <ul className="border-t max-h-60 overflow-y-auto py-1">
+          {matches.map((node, index) => (
+            <li key={node.name}>
+              <button
+                type="button"
+                onClick={() => reveal(index)}
+                className={`w-full text-left px-3 py-1 truncate hover:bg-gray-100 ${index === activeIndex ? 'bg-gray-100 font-medium' : ''}`}
+              >
+                {node.label}
+                {node.detail && <span className="ml-1 text-xs text-muted-foreground">{node.detail}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NodeSearch;
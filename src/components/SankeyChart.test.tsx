@@ -0,0 +1,132 @@
+import React, { act } from 'react';
+import { renderToString } from 'react-dom/server';
+import { createRoot, Root } from 'react-dom/client';
+import SankeyChart from './SankeyChart';
+import { withSankeyDefaults } from '../lib/sankeyDefaults';
+import { SankeyChartData } from '../types/sigma';
+
+// jsdom can't draw, so charts are stand-ins that record the options they are given
+const mockCharts: { dom: HTMLElement; setOption: jest.Mock }[] = [];
+jest.mock('echarts', () => ({
+  init: (dom: HTMLElement) => {
+    const chart = {
+      dom,
+      setOption: jest.fn(),
+      getDom: () => dom,
+      getWidth: () => 800,
+      getHeight: () => 600,
+      getZr: () => ({ on: jest.fn() }),
+      on: jest.fn(),
+      resize: jest.fn(),
+      dispose: jest.fn(),
+      dispatchAction: jest.fn()
+    };
+    mockCharts.push(chart);
+    return chart;
+  }
+}));
+
+const DATA: SankeyChartData = {
+  nodes: [{ name: 'Leads' }, { name: 'Trials' }, { name: 'Customers' }],
+  links: [
+    { source: 'Leads', target: 'Trials', value: 10, id: 'a' },
+    { source: 'Trials', target: 'Customers', value: 4, id: 'b' }
+  ]
+};
+
+// The chart itself is drawn in effects, which don't run here; rendering catches errors
+// in the option and layout code that runs on every render
+describe('SankeyChart', () => {
+  it('renders with the default settings', () => {
+    const view = renderToString(<SankeyChart data={DATA} settings={withSankeyDefaults()} />);
+
+    expect(view).toContain('sankey-chart-container');
+  });
+
+  it('renders with every optional feature turned on', () => {
+    const settings = withSankeyDefaults({
+      layout: { ...withSankeyDefaults().layout, nodeSort: 'valueDesc', nodePositions: { Trials: 0.5 } },
+      interaction: { ...withSankeyDefaults().interaction, emphasis: { focus: 'trace', blurScope: 'coordinateSystem' } }
+    });
+    const view = renderToString(
+      <SankeyChart
+        data={DATA}
+        settings={settings}
+        highlight={{ links: ['a'], nodes: ['Trials'] }}
+        viewState={{ hiddenNodes: ['Other'], otherNodes: [], isolatedNode: 'Trials' }}
+        onSelectionChange={() => {}}
+        onViewStateChange={() => {}}
+        onNodePositionsChange={() => {}}
+      />
+    );
+
+    expect(view).toContain('sankey-chart-container');
+  });
+});
+
+describe('SankeyChart zoom and pan', () => {
+  const settings = withSankeyDefaults({ layout: { ...withSankeyDefaults().layout, heightMode: 'fixed' } });
+  let container: HTMLDivElement;
+  let root: Root;
+
+  // Series box the main chart was last given, by a refresh or by zooming and panning
+  const drawnBox = () => mockCharts[0].setOption.mock.calls
+    .map(([option]) => option.series?.[0])
+    .filter(series => series?.width)
+    .map(({ left, top, width, height }) => ({ left, top, width, height }))
+    .pop();
+  const drawChart = (data: SankeyChartData) => root.render(<SankeyChart data={data} settings={settings} />);
+  const button = (title: string) => container.querySelector(`button[title^="${title}"]`) as HTMLButtonElement;
+  const click = (title: string) => act(() => {
+    button(title).dispatchEvent(new MouseEvent('click', { bubbles: true }));
+  });
+
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  beforeEach(() => {
+    mockCharts.length = 0;
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  it('draws the whole diagram until zoomed in', () => {
+    act(() => drawChart(DATA));
+
+    expect(drawnBox()).toEqual({ left: '5%', top: '5%', width: '75%', height: '90%' });
+    expect(button('Zoom out').disabled).toBe(true);
+  });
+
+  it('zooms in and resets to the whole diagram', () => {
+    act(() => drawChart(DATA));
+    click('Zoom in');
+
+    expect(parseFloat(drawnBox()!.width)).toBeGreaterThan(75);
+    expect(button('Zoom out').disabled).toBe(false);
+
+    click('Show the whole diagram');
+    expect(drawnBox()).toEqual({ left: '5%', top: '5%', width: '75%', height: '90%' });
+  });
+
+  it('keeps the view when the data refreshes', () => {
+    act(() => drawChart(DATA));
+    click('Zoom in');
+    const zoomedBox = drawnBox();
+
+    const refreshed: SankeyChartData = {
+      nodes: [...DATA.nodes, { name: 'Churned' }],
+      links: [...DATA.links, { source: 'Trials', target: 'Churned', value: 6, id: 'c' }]
+    };
+    act(() => drawChart(refreshed));
+
+    expect(drawnBox()).toEqual(zoomedBox);
+    expect(button('Zoom out').disabled).toBe(false);
+  });
+});
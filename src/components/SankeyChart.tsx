@@ -1,67 +1,168 @@
 import React, { useEffect, useRef, useCallback, useState, forwardRef, useImperativeHandle, useMemo } from 'react';
 import * as echarts from 'echarts';
 import type { ECharts } from 'echarts';
-import { SankeyChartData, SankeySettings } from '../types/sigma';
+import { SankeyChartData, SankeySettings, SankeyViewState } from '../types/sigma';
 import { DEFAULT_SANKEY_SETTINGS } from '../lib/sankeyDefaults';
 import { createTooltipFormatter } from '../lib/tooltipFormatter';
+import { collapseGroupsAcyclic, getGroupKey } from '../lib/nodeGroups';
+import { getNodeColor } from '../lib/nodeColors';
+import { createNumberFormatter, ColumnNumberFormat } from '../lib/numberFormat';
+import { calculateFlowStatistics, sortNodes, traceNodeFlows } from '../lib/sankeyDataTransform';
+import { ChartSelection, EMPTY_SELECTION, updateSelection, isNodeSelectable } from '../lib/chartSelection';
+import { ChartView, DEFAULT_VIEW, clampView, getSeriesBox, zoomView, panView, centerOnPoint, getNodeLayout, MAX_ZOOM } from '../lib/chartView';
+import SankeyMinimap from './SankeyMinimap';
+import NodeSearch, { SearchableNode } from './NodeSearch';
+import ChartContextMenu, { ContextMenuItem, copyToClipboard } from './ChartContextMenu';
+import { EMPTY_VIEW_STATE, hasViewChanges, isCollapsedNode } from '../lib/viewState';
+import { X, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
 
 interface SankeyChartProps {
   data: SankeyChartData;
   settings: SankeySettings;
+  columnFormat?: ColumnNumberFormat; // Default format from the value column's type, used by the 'auto' format style
+  highlight?: ChartSelection; // Link IDs and node names set on the selection controls, highlighted while the rest dim
   width?: number | string;
   onChartReady?: (chart: ECharts) => void;
   onNodeClick?: (params: any) => void;
   onLinkClick?: (params: any) => void;
+  // Selected link IDs and node names, after every click that changes the selection
+  onSelectionChange?: (linkIds: string[], nodeNames: string[]) => void;
+  viewState?: SankeyViewState; // Hidden, collapsed and isolated nodes, applied to `data` by the caller
+  onViewStateChange?: (viewState: SankeyViewState) => void; // Enables the node actions of the context menu
+  // Makes nodes draggable within their level; called with all manual positions after a drag
+  onNodePositionsChange?: (positions: Record<string, number>) => void;
 }
 
+// Zoom factor per wheel notch or button press
+const ZOOM_STEP = 1.2;
+
 export interface SankeyChartRef {
   getChartInstance: () => ECharts | null;
 }
 
-// Generate colors for nodes to enable gradients
-const generateNodeColor = (index: number, total: number): string => {
-  // Use a color palette that works well for gradients
-  const colors = [
-    '#5470c6', '#91cc75', '#fac858', '#ee6666', '#73c0de', 
-    '#3ba272', '#fc8452', '#9a60b4', '#ea7ccc', '#8d6e5f',
-    '#dd6b66', '#759aa0', '#e69d87', '#8dc1a9', '#ea7e53'
-  ];
-  
-  if (total <= colors.length) {
-    return colors[index];
-  }
-  
-  // For more nodes, generate colors using HSL
-  const hue = (index * 360 / total) % 360;
-  const saturation = 65 + (index % 3) * 10; // 65%, 75%, 85%
-  const lightness = 50 + (index % 2) * 15;  // 50%, 65%
-  
-  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
-};
-
 const SankeyChart = forwardRef<SankeyChartRef, SankeyChartProps>(({
   data,
   settings = DEFAULT_SANKEY_SETTINGS,
+  columnFormat,
+  highlight = EMPTY_SELECTION,
   width = '100%',
   onChartReady,
   onNodeClick,
   onLinkClick,
+  onSelectionChange,
+  viewState = EMPTY_VIEW_STATE,
+  onViewStateChange,
+  onNodePositionsChange,
 }, ref) => {
   const chartRef = useRef<HTMLDivElement>(null);
   const chartInstance = useRef<ECharts | null>(null);
   const [error, setError] = useState<string | null>(null);
   const isFirstRender = useRef<boolean>(true);
+  // Group nodes the viewer has drilled into; every other group starts collapsed
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  // Links (by ID) and nodes (by identity) the viewer has selected
+  const [selection, setSelection] = useState<ChartSelection>(EMPTY_SELECTION);
+  const selectionCount = selection.links.length + selection.nodes.length;
+
+  // Zoom and pan. The view outlives data refreshes: it is part of every option set on
+  // the chart, and only the zoom controls, a double-click or unmounting reset it.
+  const [view, setView] = useState<ChartView>(DEFAULT_VIEW);
+  const viewRef = useRef<ChartView>(DEFAULT_VIEW);
+  viewRef.current = view;
+  const isZoomEnabled = settings.interaction.zoom;
+  const panStart = useRef<{ x: number; y: number; view: ChartView } | null>(null);
+
+  // Data at the current level of detail
+  const displayData = useMemo(() => {
+    // Collapsing can fold an acyclic graph into a cyclic one, which ECharts can't draw
+    const collapsed = collapseGroupsAcyclic(
+      data,
+      expandedGroups,
+      settings.data.cycleStrategy,
+      settings.data.aggregation,
+      settings.data.tooltipColumnAggregation
+    );
+    // Group nodes are new, so the node order is applied again
+    return collapsed === data ? data : sortNodes(collapsed, settings.layout.nodeSort);
+  }, [data, expandedGroups, settings.data.aggregation, settings.data.tooltipColumnAggregation, settings.data.cycleStrategy, settings.layout.nodeSort]);
+
+  // Expanded groups still present in the data, for the collapse chips
+  const expandedGroupLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    data.nodes.forEach(node => {
+      if (node.group && expandedGroups.has(getGroupKey(node))) {
+        labels.set(getGroupKey(node), node.group);
+      }
+    });
+    return labels;
+  }, [data, expandedGroups]);
+
+  const collapseGroup = useCallback((groupKey: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      next.delete(groupKey);
+      return next;
+    });
+  }, []);
+
+  // Update the selection and report it with node display names
+  const changeSelection = useCallback((next: ChartSelection) => {
+    setSelection(next);
+    if (onSelectionChange) {
+      const displayNames = new Map(displayData.nodes.map(node => [node.name, node.label || node.name]));
+      onSelectionChange(next.links, next.nodes.map(name => displayNames.get(name) || name));
+    }
+  }, [displayData, onSelectionChange]);
+
+  // Positions of the highlighted links and nodes in the drawn data. Nodes match by
+  // name as shown (the controls hold names from the data) or by identity.
+  const highlightIndices = useMemo(() => {
+    const linkIds = new Set(highlight.links);
+    const nodeNames = new Set(highlight.nodes);
+    const edges: number[] = [];
+    const nodes: number[] = [];
+    displayData.links.forEach((link, index) => {
+      if (link.id !== undefined && linkIds.has(String(link.id))) {
+        edges.push(index);
+      }
+    });
+    displayData.nodes.forEach((node, index) => {
+      if (nodeNames.has(node.label || node.name) || nodeNames.has(node.name)) {
+        nodes.push(index);
+      }
+    });
+    return { edges, nodes };
+  }, [displayData, highlight]);
+
+  const isDraggable = !!onNodePositionsChange;
 
   // Create ECharts option from settings and data - memoized to prevent unnecessary recreations
   const chartOption = useMemo(() => {
     // Only enable animations on the first render, not on subsequent updates
     const shouldAnimate = settings.animation.enabled && isFirstRender.current;
     
+    // Qualified identities (e.g. split cycle nodes) display under their plain label
+    const displayNames = new Map(displayData.nodes.map(node => [node.name, node.label || node.name]));
+    const stages = new Map(displayData.nodes.map(node => [node.name, node.stage]));
+    const formatValue = createNumberFormatter(settings.format, columnFormat);
+    const stats = calculateFlowStatistics(displayData.nodes, displayData.links);
+    const share = (value: number, basis: number | undefined) => basis ? value / basis : undefined;
+    // Selected nodes get a dark outline; selected links stay opaque while the rest fade
+    const selectedNodes = new Set(selection.nodes);
+    const selectedLinks = new Set(selection.links);
+    // Dragged nodes keep their place within the level; ECharts reads it from localX/localY
+    const nodePositions = settings.layout.nodePositions || {};
+    const positionKey = settings.layout.orient === 'vertical' ? 'localX' : 'localY';
+
     return {
       tooltip: {
         show: settings.tooltip.show,
         trigger: settings.tooltip.trigger,
-        formatter: createTooltipFormatter(settings.tooltip.formatter),
+        formatter: createTooltipFormatter(
+          { link: settings.tooltip.linkFormatter, node: settings.tooltip.nodeFormatter },
+          formatValue,
+          settings.format.locale
+        ),
         backgroundColor: settings.tooltip.backgroundColor,
         borderColor: settings.tooltip.borderColor,
         textStyle: {
@@ -76,13 +177,30 @@ const SankeyChart = forwardRef<SankeyChartRef, SankeyChartProps>(({
         {
           type: 'sankey',
           orient: settings.layout.orient,
-          data: data.nodes.map((node, index) => ({
+          ...getSeriesBox(viewRef.current),
+          data: displayData.nodes.map((node) => ({
             name: node.name,
+            displayName: displayNames.get(node.name),
+            stage: node.stage,
+            members: node.members,
+            category: node.category,
+            isGroup: node.isGroup,
+            inflow: stats.inflow.get(node.name) || 0,
+            outflow: stats.outflow.get(node.name) || 0,
+            depth: stats.depth.get(node.name),
+            percentOfTotal: share(
+              Math.max(stats.inflow.get(node.name) || 0, stats.outflow.get(node.name) || 0),
+              stats.total
+            ),
             value: node.value,
+            ...(nodePositions[node.name] !== undefined ? { [positionKey]: nodePositions[node.name] } : {}),
             itemStyle: {
-              color: generateNodeColor(index, data.nodes.length),
-              borderColor: settings.nodes.itemStyle.borderColor,
-              borderWidth: settings.nodes.itemStyle.borderWidth,
+              // Stable across refreshes: explicit color, then category, then name
+              color: getNodeColor(node),
+              borderColor: selectedNodes.has(node.name) ? '#111827' : settings.nodes.itemStyle.borderColor,
+              borderWidth: selectedNodes.has(node.name)
+                ? Math.max(settings.nodes.itemStyle.borderWidth, 2) + 1
+                : settings.nodes.itemStyle.borderWidth,
             },
             label: {
               show: settings.nodes.label.show,
@@ -91,9 +209,13 @@ const SankeyChart = forwardRef<SankeyChartRef, SankeyChartProps>(({
               rotate: settings.nodes.label.rotate,
               fontSize: settings.nodes.label.fontSize,
               fontWeight: settings.nodes.label.fontWeight,
+              formatter: (params: any) => {
+                const name = displayNames.get(node.name) || node.name;
+                return settings.nodes.label.showValue ? `${name}: ${formatValue(params.value)}` : name;
+              },
             },
           })),
-          links: data.links.map((link) => {
+          links: displayData.links.map((link) => {
             // For gradient mode, don't set individual link colors - let series lineStyle handle it
             const linkLineStyle: any = {
               width: settings.links.lineStyle.width,
@@ -107,11 +229,33 @@ const SankeyChart = forwardRef<SankeyChartRef, SankeyChartProps>(({
                                    settings.links.colorMode === 'target' ? 'target' :
                                    settings.links.lineStyle.color;
             }
+
+            // Signed flows: outflows and inflows get their own colors
+            if (settings.links.directionColors && link.direction) {
+              linkLineStyle.color = link.direction === 'inflow' ? settings.links.inflowColor : settings.links.outflowColor;
+            }
+
+            if (selectedLinks.size > 0) {
+              linkLineStyle.opacity = link.id !== undefined && selectedLinks.has(String(link.id))
+                ? Math.max(settings.links.opacity, 0.9)
+                : settings.links.opacity * 0.35;
+            }
             
             const linkData: any = {
               source: link.source,
               target: link.target,
+              sourceName: displayNames.get(String(link.source)),
+              targetName: displayNames.get(String(link.target)),
+              sourceStage: stages.get(String(link.source)),
+              targetStage: stages.get(String(link.target)),
               value: link.value,
+              gross: link.gross,
+              net: link.net,
+              direction: link.direction,
+              percentOfSource: share(link.value, stats.outflow.get(String(link.source))),
+              percentOfTarget: share(link.value, stats.inflow.get(String(link.target))),
+              percentOfTotal: share(link.value, stats.total),
+              columns: link.columns,
               lineStyle: linkLineStyle,
             };
 
@@ -123,16 +267,19 @@ const SankeyChart = forwardRef<SankeyChartRef, SankeyChartProps>(({
             return linkData;
           }),
           emphasis: {
-            focus: settings.interaction.emphasis.focus,
+            // Tracing restyles the series itself, see applySeriesStyle
+            focus: settings.interaction.emphasis.focus === 'trace' ? 'none' : settings.interaction.emphasis.focus,
             blurScope: settings.interaction.emphasis.blurScope,
           },
           select: {
             disabled: settings.interaction.select.disabled,
           },
+          draggable: isDraggable,
           nodeWidth: settings.nodes.width,
           nodeAlign: settings.layout.nodeAlign,
           nodeGap: settings.layout.nodeGap,
-          iterations: settings.layout.iterations,
+          // A fixed node order only holds without relaxation, which moves nodes to shorten links
+          layoutIterations: settings.layout.nodeSort === 'auto' ? settings.layout.iterations : 0,
           lineStyle: {
             color: settings.links.colorMode === 'gradient' ? 'gradient' : 
                    settings.links.colorMode === 'source' ? 'source' :
@@ -144,48 +291,290 @@ const SankeyChart = forwardRef<SankeyChartRef, SankeyChartProps>(({
         },
       ],
     };
-  }, [data, settings]);
+  }, [displayData, settings, columnFormat, selection, isDraggable]);
 
-  // Initialize chart
-  const initChart = useCallback(() => {
-    if (!chartRef.current) return;
+  // Trace mode: dim everything outside the lineage of the hovered node (or of the one
+  // selected node), with traced links as wide and strong as the share of their flow that
+  // passes through it.
+  const isTracing = settings.interaction.emphasis.focus === 'trace';
+  const pinnedTrace = isTracing && selection.nodes.length === 1 ? selection.nodes[0] : null;
+  const tracedNode = useRef<string | null>(null);
+  const traceRestore = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The node found by search is highlighted like the controls' selection, with its links
+  const searchFocus = useRef<string | null>(null);
 
-    try {
-      setError(null);
+  // Tracing and highlighting restyle the drawn series, so the chart is not recreated
+  // per hover or selection and the rest dims whatever the hover focus mode is
+  const isRestyled = useRef<boolean>(false);
+  const applySeriesStyle = useRef<() => void>(() => {});
+  applySeriesStyle.current = () => {
+    const chart = chartInstance.current;
+    if (!chart) return;
 
-      // Dispose existing chart if any
-      if (chartInstance.current) {
-        chartInstance.current.dispose();
-        chartInstance.current = null;
-      }
-
-      // Create new chart instance
-      chartInstance.current = echarts.init(chartRef.current);
+    const highlightedNodes = new Set(highlightIndices.nodes);
+    const highlightedEdges = new Set(highlightIndices.edges);
+    const focusIndex = displayData.nodes.findIndex(node => node.name === searchFocus.current);
+    if (focusIndex !== -1) {
+      highlightedNodes.add(focusIndex);
+      displayData.links.forEach((link, index) => {
+        if (String(link.source) === searchFocus.current || String(link.target) === searchFocus.current) {
+          highlightedEdges.add(index);
+        }
+      });
+    }
 
-      // Set options using memoized chart option
-      chartInstance.current.setOption(chartOption, true); // true = notMerge for complete refresh
+    const isHighlighting = highlightedNodes.size + highlightedEdges.size > 0;
+    const trace = tracedNode.current
+      ? traceNodeFlows(displayData.nodes, displayData.links, tracedNode.current)
+      : null;
+    // Nothing to apply over a freshly drawn series
+    if (!trace && !isHighlighting && !isRestyled.current) return;
+    isRestyled.current = !!trace || isHighlighting;
 
-      // Add event listeners
-      if (onNodeClick) {
-        chartInstance.current.on('click', (params: any) => {
-          if (params.dataType === 'node') {
-            onNodeClick(params);
+    const { data: nodeItems, links: linkItems } = chartOption.series[0];
+    chart.setOption({
+      animation: false,
+      series: [{
+        data: nodeItems.map((item, index) => {
+          const isDimmed = (trace && !trace.nodes.has(item.name)) || (isHighlighting && !highlightedNodes.has(index));
+          return {
+            ...item,
+            // ECharts sizes a node by its value or its links, whichever is larger, so pinning
+            // the value keeps nodes steady while traced links narrow
+            ...(trace ? { value: Math.max(item.value || 0, item.inflow, item.outflow) } : {}),
+            ...(isDimmed ? {
+              itemStyle: { ...item.itemStyle, opacity: 0.15 },
+              label: { ...item.label, opacity: 0.3 },
+            } : {}),
+          };
+        }),
+        links: linkItems.map((item: any, index: number) => {
+          const isDimmed = isHighlighting && !highlightedEdges.has(index);
+          if (!trace) {
+            return isDimmed ? { ...item, lineStyle: { ...item.lineStyle, opacity: 0.1 } } : item;
           }
-        });
-      }
 
-      if (onLinkClick) {
-        chartInstance.current.on('click', (params: any) => {
-          if (params.dataType === 'edge') {
-            onLinkClick(params);
-          }
-        });
+          // Traced links are as wide as the flow passing through the node
+          const share = item.value > 0 ? trace.linkFlow[index] / item.value : 0;
+          return {
+            ...item,
+            ...(share > 0 ? { value: trace.linkFlow[index], fullValue: item.value } : {}),
+            lineStyle: { ...item.lineStyle, opacity: share > 0 && !isDimmed ? 0.2 + 0.7 * share : 0.03 },
+          };
+        }),
+      }],
+    });
+  };
+
+  const applyTrace = useRef<(nodeName: string | null) => void>(() => {});
+  applyTrace.current = (nodeName) => {
+    if (!isTracing || nodeName === tracedNode.current) return;
+    tracedNode.current = nodeName;
+    applySeriesStyle.current();
+  };
+
+  useEffect(() => {
+    applySeriesStyle.current();
+  }, [highlightIndices]);
+
+  // Chart event handlers. The listeners are registered once per chart instance and
+  // call through these refs, so they always see the current state.
+  const handleClick = useRef<(params: any) => void>(() => {});
+  handleClick.current = (params) => {
+    // Clicking a collapsed group drills into it
+    if (params.dataType === 'node' && params.data?.isGroup) {
+      setExpandedGroups(prev => new Set(prev).add(params.data.name));
+      return;
+    }
+
+    if (params.dataType === 'node' && onNodeClick) {
+      onNodeClick(params);
+    } else if (params.dataType === 'edge' && onLinkClick) {
+      onLinkClick(params);
+    }
+
+    if (settings.interaction.select.disabled || !params.data) return;
+
+    // Ctrl/Cmd/Shift-click adds to the selection
+    const event = params.event?.event;
+    const additive = !!(event && (event.ctrlKey || event.metaKey || event.shiftKey));
+    if (params.dataType === 'edge' && params.data.id !== undefined) {
+      changeSelection(updateSelection(selection, 'links', String(params.data.id), additive));
+    } else if (params.dataType === 'node' && isNodeSelectable(params.data, settings.interaction.nodeSelection)) {
+      changeSelection(updateSelection(selection, 'nodes', params.data.name, additive));
+    }
+  };
+
+  // Right-click menu with quick actions for the node or link under the pointer
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; title: string; items: ContextMenuItem[] } | null>(null);
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+
+  const handleContextMenu = useRef<(params: any) => void>(() => {});
+  handleContextMenu.current = (params) => {
+    const chart = chartInstance.current;
+    if (!chart || !params.data) return;
+    params.event?.event?.preventDefault();
+
+    const items: ContextMenuItem[] = [];
+    const data = params.data;
+    let title: string;
+
+    if (params.dataType === 'node') {
+      title = data.displayName || data.name;
+      if (data.isGroup) {
+        items.push({ label: 'Expand group', onSelect: () => setExpandedGroups(prev => new Set(prev).add(data.name)) });
+      } else if (onViewStateChange && isCollapsedNode(data)) {
+        items.push({ label: 'Expand Other', onSelect: () => onViewStateChange({ ...viewState, otherNodes: [] }) });
+      } else if (onViewStateChange) {
+        const isIsolated = viewState.isolatedNode === data.name;
+        items.push(
+          { label: 'Hide node', onSelect: () => onViewStateChange({ ...viewState, hiddenNodes: [...viewState.hiddenNodes, data.name] }) },
+          {
+            label: isIsolated ? 'Show all flows' : 'Isolate flows through this node',
+            onSelect: () => onViewStateChange({ ...viewState, isolatedNode: isIsolated ? null : data.name })
+          },
+          { label: 'Collapse into Other', onSelect: () => onViewStateChange({ ...viewState, otherNodes: [...viewState.otherNodes, data.name] }) }
+        );
+      }
+      items.push({ label: 'Copy name', onSelect: () => copyToClipboard(title) });
+    } else if (params.dataType === 'edge') {
+      title = `${data.sourceName || data.source} → ${data.targetName || data.target}`;
+      items.push({ label: 'Copy value', onSelect: () => copyToClipboard(String(data.value)) });
+      if (data.id !== undefined) {
+        const id = String(data.id);
+        items.push({ label: "Filter workbook by this link's ID", onSelect: () => changeSelection({ links: [id], nodes: [] }) });
       }
+    } else {
+      return;
+    }
 
-      // Handle chart ready
-      if (onChartReady) {
-        onChartReady(chartInstance.current);
+    // Keep the menu inside the chart
+    const x = Math.min(params.event.offsetX, chart.getWidth() - 208);
+    const y = Math.min(params.event.offsetY, chart.getHeight() - (items.length * 32 + 40));
+    setContextMenu({ x: Math.max(0, x), y: Math.max(0, y), title, items });
+  };
+
+  // Tracing redraws the series, which moves the pointer onto a new element for the
+  // same node; the restore is deferred so that mouseout/mouseover pair cancels out
+  const handleMouseOver = useRef<(params: any) => void>(() => {});
+  handleMouseOver.current = (params) => {
+    if (!isTracing || params.dataType !== 'node') return;
+    if (traceRestore.current) {
+      clearTimeout(traceRestore.current);
+      traceRestore.current = null;
+    }
+    applyTrace.current(params.data.name);
+  };
+
+  const handleMouseOut = useRef<(params: any) => void>(() => {});
+  handleMouseOut.current = (params) => {
+    if (!isTracing || params.dataType !== 'node') return;
+    traceRestore.current = setTimeout(() => {
+      traceRestore.current = null;
+      applyTrace.current(pinnedTrace);
+    }, 0);
+  };
+
+  // Positions from the current drag, saved when the pointer is released
+  const draggedPositions = useRef<Record<string, number>>({});
+  const handleDragNode = useRef<(params: any) => void>(() => {});
+  handleDragNode.current = (params) => {
+    const node = displayData.nodes[params.dataIndex];
+    if (!node) return;
+    const position = settings.layout.orient === 'vertical' ? params.localX : params.localY;
+    draggedPositions.current[node.name] = Math.min(1, Math.max(0, position));
+  };
+
+  const handleDragEnd = useRef<() => void>(() => {});
+  handleDragEnd.current = () => {
+    const dragged = draggedPositions.current;
+    if (Object.keys(dragged).length === 0 || !onNodePositionsChange) return;
+    draggedPositions.current = {};
+
+    // ECharts drags nodes freely; put them back in their level, keeping only the
+    // position along it
+    const positionKey = settings.layout.orient === 'vertical' ? 'localX' : 'localY';
+    chartInstance.current?.setOption({
+      animation: false,
+      series: [{
+        data: chartOption.series[0].data.map(item => dragged[item.name] === undefined ? item : {
+          ...item,
+          [positionKey]: dragged[item.name],
+        }),
+      }],
+    });
+    onNodePositionsChange({ ...settings.layout.nodePositions, ...dragged });
+  };
+
+  // Create the chart once and update it in place afterwards, so that zoom, pan and
+  // hover state survive data and settings changes
+  const getChart = useCallback((): ECharts | null => {
+    if (!chartRef.current) return null;
+    if (chartInstance.current && chartInstance.current.getDom() === chartRef.current) {
+      return chartInstance.current;
+    }
+
+    chartInstance.current?.dispose();
+    const chart = echarts.init(chartRef.current);
+    chartInstance.current = chart;
+
+    chart.on('click', (params: any) => handleClick.current(params));
+    chart.on('mouseover', (params: any) => handleMouseOver.current(params));
+    chart.on('mouseout', (params: any) => handleMouseOut.current(params));
+    chart.on('contextmenu', (params: any) => handleContextMenu.current(params));
+    chart.on('dragnode', (params: any) => handleDragNode.current(params));
+
+    // Dragging the background pans, double-clicking it resets the view
+    const zr = chart.getZr();
+    zr.on('mousedown', (event: any) => {
+      if (!event.target) {
+        panStart.current = { x: event.offsetX, y: event.offsetY, view: viewRef.current };
+      }
+    });
+    zr.on('mousemove', (event: any) => {
+      const start = panStart.current;
+      if (!start || start.view.zoom <= 1) return;
+      setView(panView(
+        start.view,
+        (event.offsetX - start.x) / chart.getWidth(),
+        (event.offsetY - start.y) / chart.getHeight()
+      ));
+    });
+    zr.on('mouseup', () => {
+      panStart.current = null;
+      handleDragEnd.current();
+    });
+    zr.on('globalout', () => {
+      panStart.current = null;
+      handleDragEnd.current();
+    });
+    zr.on('dblclick', (event: any) => {
+      if (!event.target) {
+        setView(DEFAULT_VIEW);
       }
+    });
+
+    if (onChartReady) {
+      onChartReady(chart);
+    }
+    return chart;
+  }, [onChartReady]);
+
+  // Update chart when data or settings change
+  useEffect(() => {
+    if (displayData.nodes.length === 0 || displayData.links.length === 0 || !chartRef.current) return;
+
+    try {
+      setError(null);
+      const chart = getChart();
+      if (!chart) return;
+
+      chart.setOption(chartOption, true); // true = notMerge for complete refresh
+
+      // A complete refresh drops the highlight and trace styling, so apply them again
+      isRestyled.current = false;
+      tracedNode.current = pinnedTrace;
+      applySeriesStyle.current();
 
       // Mark first render as complete to disable animations on future updates
       isFirstRender.current = false;
@@ -193,14 +582,68 @@ const SankeyChart = forwardRef<SankeyChartRef, SankeyChartProps>(({
       console.error('Error initializing Sankey chart:', err);
       setError(err instanceof Error ? err.message : 'Failed to initialize chart');
     }
-  }, [chartOption, onNodeClick, onLinkClick, onChartReady]);
+  }, [displayData, chartOption, getChart, pinnedTrace]);
 
-  // Update chart when data or settings change
+  // Move the diagram within the chart area without rebuilding the option
+  useEffect(() => {
+    if (!chartInstance.current) return;
+    chartInstance.current.setOption({ series: [getSeriesBox(view)] });
+  }, [view]);
+
+  // Turning zoom off returns to the whole diagram
   useEffect(() => {
-    if (data.nodes.length > 0 && data.links.length > 0) {
-      initChart();
+    if (!isZoomEnabled) {
+      setView(DEFAULT_VIEW);
+    }
+  }, [isZoomEnabled]);
+
+  // Nodes offered by the search, with the stage when several share a label
+  const searchableNodes: SearchableNode[] = useMemo(() => displayData.nodes.map(node => ({
+    name: node.name,
+    label: node.label || node.name,
+    detail: node.isGroup ? 'group' : node.stage !== undefined ? `stage ${node.stage}` : undefined,
+  })), [displayData]);
+
+  // Reveal a node found by search: highlight it with its links and, when zoomed in,
+  // bring it to the middle of the view. null ends the search.
+  const focusNode = useCallback((name: string | null) => {
+    const chart = chartInstance.current;
+    if (!chart) return;
+
+    searchFocus.current = name;
+    applySeriesStyle.current();
+    const index = displayData.nodes.findIndex(node => node.name === name);
+    if (index === -1) return;
+
+    // Node layouts are relative to the series box
+    const layout = getNodeLayout(chart, index);
+    const zoom = viewRef.current.zoom;
+    if (layout && zoom > 1) {
+      const boxWidth = chart.getWidth() * parseFloat(getSeriesBox(viewRef.current).width) / 100;
+      const boxHeight = chart.getHeight() * parseFloat(getSeriesBox(viewRef.current).height) / 100;
+      setView(prev => centerOnPoint(prev, (layout.x + layout.dx / 2) / boxWidth, (layout.y + layout.dy / 2) / boxHeight));
     }
-  }, [data, settings, initChart]); // Fixed: include initChart in dependencies for proper updates
+  }, [displayData]);
+
+  // Wheel zoom around the pointer; a native listener so the page doesn't scroll too
+  useEffect(() => {
+    const element = chartRef.current;
+    if (!element || !isZoomEnabled) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const bounds = element.getBoundingClientRect();
+      setView(prev => zoomView(
+        prev,
+        event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP,
+        (event.clientX - bounds.left) / bounds.width,
+        (event.clientY - bounds.top) / bounds.height
+      ));
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [isZoomEnabled, error]);
 
   // Calculate height based on settings
   const getChartHeight = useCallback((): string | number => {
@@ -249,6 +692,11 @@ const SankeyChart = forwardRef<SankeyChartRef, SankeyChartProps>(({
     }
   }, [settings.layout.heightMode]);
 
+  // The chart is updated in place, so a new fixed height needs an explicit resize
+  useEffect(() => {
+    handleResize();
+  }, [settings.layout.heightMode, settings.layout.customHeight, handleResize]);
+
   useEffect(() => {
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
@@ -257,6 +705,9 @@ const SankeyChart = forwardRef<SankeyChartRef, SankeyChartProps>(({
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      if (traceRestore.current) {
+        clearTimeout(traceRestore.current);
+      }
       if (chartInstance.current) {
         chartInstance.current.dispose();
         chartInstance.current = null;
@@ -291,6 +742,135 @@ const SankeyChart = forwardRef<SankeyChartRef, SankeyChartProps>(({
         }}
         className="sankey-chart-container"
       />
+
+      <div className="absolute top-2 left-2 flex flex-col items-start gap-1 max-w-[60%]">
+        <NodeSearch nodes={searchableNodes} onFocusNode={focusNode} />
+
+        {/* Context menu changes - click a chip to undo it */}
+        {onViewStateChange && hasViewChanges(viewState) && (
+          <div className="flex flex-wrap gap-1">
+            {viewState.isolatedNode !== null && (
+              <button
+                type="button"
+                onClick={() => onViewStateChange({ ...viewState, isolatedNode: null })}
+                title="Show all flows"
+                className="flex items-center gap-1 px-2 py-0.5 text-xs bg-blue-50 border border-blue-200 rounded-full shadow-sm hover:bg-blue-100"
+              >
+                Through {displayData.nodes.find(node => node.name === viewState.isolatedNode)?.label || viewState.isolatedNode}
+                <X className="h-3 w-3" />
+              </button>
+            )}
+            {viewState.hiddenNodes.length > 0 && (
+              <button
+                type="button"
+                onClick={() => onViewStateChange({ ...viewState, hiddenNodes: [] })}
+                title="Show hidden nodes"
+                className="flex items-center gap-1 px-2 py-0.5 text-xs bg-blue-50 border border-blue-200 rounded-full shadow-sm hover:bg-blue-100"
+              >
+                {viewState.hiddenNodes.length} hidden
+                <X className="h-3 w-3" />
+              </button>
+            )}
+            {viewState.otherNodes.length > 0 && (
+              <button
+                type="button"
+                onClick={() => onViewStateChange({ ...viewState, otherNodes: [] })}
+                title="Expand Other"
+                className="flex items-center gap-1 px-2 py-0.5 text-xs bg-blue-50 border border-blue-200 rounded-full shadow-sm hover:bg-blue-100"
+              >
+                {viewState.otherNodes.length} in Other
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        )}
+
+      {/* Expanded groups - click a chip to collapse the group again */}
+      {expandedGroupLabels.size > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {Array.from(expandedGroupLabels.entries()).map(([groupKey, label]) => (
+            <button
+              key={groupKey}
+              type="button"
+              onClick={() => collapseGroup(groupKey)}
+              title={`Collapse ${label}`}
+              className="flex items-center gap-1 px-2 py-0.5 text-xs bg-white/90 border rounded-full shadow-sm hover:bg-gray-100"
+            >
+              {label}
+              <X className="h-3 w-3" />
+            </button>
+          ))}
+        </div>
+      )}
+      </div>
+
+      {contextMenu && (
+        <ChartContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          title={contextMenu.title}
+          items={contextMenu.items}
+          onClose={closeContextMenu}
+        />
+      )}
+
+      <div className="absolute bottom-2 right-2 flex flex-col items-end gap-1">
+        {/* Overview while zoomed in */}
+        {isZoomEnabled && view.zoom > 1 && (
+          <SankeyMinimap
+            series={chartOption.series[0]}
+            view={view}
+            chartWidth={chartRef.current?.clientWidth || 0}
+            chartHeight={chartRef.current?.clientHeight || 0}
+            onCenter={(centerX, centerY) => setView(prev => clampView({ ...prev, centerX, centerY }))}
+          />
+        )}
+
+        {isZoomEnabled && (
+          <div className="flex bg-white/90 border rounded shadow-sm">
+            <button
+              type="button"
+              onClick={() => setView(prev => zoomView(prev, ZOOM_STEP))}
+              disabled={view.zoom >= MAX_ZOOM}
+              title="Zoom in"
+              className="p-1 hover:bg-gray-100 disabled:opacity-40"
+            >
+              <ZoomIn className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setView(prev => zoomView(prev, 1 / ZOOM_STEP))}
+              disabled={view.zoom <= 1}
+              title="Zoom out"
+              className="p-1 hover:bg-gray-100 disabled:opacity-40"
+            >
+              <ZoomOut className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setView(DEFAULT_VIEW)}
+              disabled={view.zoom <= 1}
+              title="Show the whole diagram (or double-click the background)"
+              className="p-1 hover:bg-gray-100 disabled:opacity-40"
+            >
+              <Maximize2 className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
+        {/* Selection - Ctrl/Shift-click adds links and nodes, this clears them all */}
+        {selectionCount > 0 && !settings.interaction.select.disabled && (
+          <button
+            type="button"
+            onClick={() => changeSelection(EMPTY_SELECTION)}
+            title="Clear selection"
+            className="flex items-center gap-1 px-2 py-0.5 text-xs bg-white/90 border rounded-full shadow-sm hover:bg-gray-100"
+          >
+            {selectionCount} selected
+            <X className="h-3 w-3" />
+          </button>
+        )}
+      </div>
     </div>
   );
 });
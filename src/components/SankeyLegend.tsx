@@ -0,0 +1,46 @@
+import React from 'react';
+import { LegendEntry } from '../lib/legend';
+import { SankeyLegendSettings } from '../types/sigma';
+
+interface SankeyLegendProps {
+  entries: LegendEntry[];
+  hiddenNodes: string[];
+  position: SankeyLegendSettings['position'];
+  formatValue: (value: number) => string;
+  onToggle: (entry: LegendEntry, hidden: boolean) => void; // hidden: whether the entry should now be hidden
+}
+
+// Legend beside the chart: a color swatch and total per entry; clicking an entry
+// hides or shows its nodes
+const SankeyLegend: React.FC<SankeyLegendProps> = ({ entries, hiddenNodes, position, formatValue, onToggle }) => {
+  const hidden = new Set(hiddenNodes);
+  const isSide = position === 'left' || position === 'right';
+
+  return (
+    <ul
+      aria-label="Legend"
+      className={`text-xs overflow-auto p-2 ${isSide ? 'flex flex-col gap-0.5 w-48 shrink-0' : 'flex flex-wrap gap-x-3 gap-y-0.5 max-h-24 shrink-0'}`}
+    >
+      {entries.map(entry => {
+        const isHidden = entry.nodeNames.every(name => hidden.has(name));
+        return (
+          <li key={entry.key} className="min-w-0">
+            <button
+              type="button"
+              onClick={() => onToggle(entry, !isHidden)}
+              aria-pressed={!isHidden}
+              title={isHidden ? `Show ${entry.label}` : `Hide ${entry.label}`}
+              className={`flex items-center gap-1.5 w-full text-left px-1 py-0.5 rounded hover:bg-gray-100 ${isHidden ? 'opacity-40 line-through' : ''}`}
+            >
+              <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: entry.color }} />
+              <span className="truncate">{entry.label}</span>
+              <span className="ml-auto pl-1 text-muted-foreground shrink-0">{formatValue(entry.total)}</span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SankeyLegend;
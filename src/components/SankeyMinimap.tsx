@@ -0,0 +1,89 @@
+import React, { useEffect, useRef } from 'react';
+import * as echarts from 'echarts';
+import type { ECharts } from 'echarts';
+import { ChartView, DEFAULT_VIEW, getSeriesBox } from '../lib/chartView';
+
+interface SankeyMinimapProps {
+  series: any; // The main chart's sankey series option
+  view: ChartView;
+  chartWidth: number; // Size of the main chart area in pixels, for the minimap's proportions
+  chartHeight: number;
+  onCenter: (centerX: number, centerY: number) => void;
+}
+
+const MINIMAP_WIDTH = 160;
+
+// Overview of the whole diagram with the visible part outlined; click or drag to move the view
+const SankeyMinimap: React.FC<SankeyMinimapProps> = ({ series, view, chartWidth, chartHeight, onCenter }) => {
+  const minimapRef = useRef<HTMLDivElement>(null);
+  const minimapInstance = useRef<ECharts | null>(null);
+  const isDragging = useRef<boolean>(false);
+
+  const scale = chartWidth > 0 ? MINIMAP_WIDTH / chartWidth : 0.15;
+  const height = Math.round(Math.min(160, Math.max(60, chartHeight * scale)));
+
+  useEffect(() => {
+    if (!minimapRef.current) return;
+    const instance = echarts.init(minimapRef.current);
+    minimapInstance.current = instance;
+    return () => {
+      instance.dispose();
+      minimapInstance.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    minimapInstance.current?.resize();
+  }, [height]);
+
+  // The same diagram without labels or interaction, shrunk to fit
+  useEffect(() => {
+    if (!minimapInstance.current || !series) return;
+    minimapInstance.current.setOption({
+      animation: false,
+      series: [{
+        ...series,
+        ...getSeriesBox(DEFAULT_VIEW),
+        silent: true,
+        nodeWidth: Math.max(2, (series.nodeWidth || 20) * scale),
+        nodeGap: Math.max(1, (series.nodeGap || 8) * scale),
+        data: (series.data || []).map((item: any) => ({ ...item, label: { show: false } })),
+      }],
+    }, true);
+  }, [series, scale]);
+
+  const moveTo = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    onCenter((event.clientX - bounds.left) / bounds.width, (event.clientY - bounds.top) / bounds.height);
+  };
+
+  const visible = 1 / view.zoom;
+
+  return (
+    <div
+      className="relative bg-white/90 border rounded shadow-sm cursor-pointer overflow-hidden"
+      style={{ width: MINIMAP_WIDTH, height }}
+      onPointerDown={(event) => {
+        isDragging.current = true;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        moveTo(event);
+      }}
+      onPointerMove={(event) => isDragging.current && moveTo(event)}
+      onPointerUp={() => { isDragging.current = false; }}
+      title="Click or drag to move the view"
+    >
+      <div ref={minimapRef} style={{ width: MINIMAP_WIDTH, height }} className="pointer-events-none" />
+      <div
+        className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
+        style={{
+          left: `${(view.centerX - visible / 2) * 100}%`,
+          top: `${(view.centerY - visible / 2) * 100}%`,
+          width: `${visible * 100}%`,
+          height: `${visible * 100}%`,
+        }}
+      />
+    </div>
+  );
+};
+
+export default SankeyMinimap;
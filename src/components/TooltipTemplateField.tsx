@@ -0,0 +1,89 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { validateTooltipTemplate, migrateTooltipTemplate } from '../lib/tooltipFormatter';
+
+interface TooltipTemplateFieldProps {
+  id: string;
+  label: string;
+  dataType: 'node' | 'edge';
+  value: string;
+  placeholder?: string;
+  preview: string | null; // Template rendered against the current data, null without data
+  columnNames?: string[]; // Extra tooltip columns, for {col:Name}
+  onChange: (value: string) => void;
+}
+
+// Template input with its variables, validation and a live preview
+const TooltipTemplateField: React.FC<TooltipTemplateFieldProps> = ({
+  id,
+  label,
+  dataType,
+  value,
+  placeholder,
+  preview,
+  columnNames,
+  onChange,
+}) => {
+  const validation = validateTooltipTemplate(value, dataType, columnNames);
+  const needsMigration = value.includes('{data.');
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+      />
+      <p className="text-xs text-muted-foreground">
+        Available variables: {validation.supportedVariables.join(', ')}
+      </p>
+
+      {validation.errors.length > 0 && (
+        <div className="text-xs text-red-600 space-y-1">
+          {validation.errors.map((error, index) => (
+            <div key={index}>❌ {error}</div>
+          ))}
+        </div>
+      )}
+
+      {validation.warnings.length > 0 && (
+        <div className="text-xs text-amber-600 space-y-1">
+          {validation.warnings.map((warning, index) => (
+            <div key={index}>⚠️ {warning}</div>
+          ))}
+        </div>
+      )}
+
+      {needsMigration && (
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => onChange(migrateTooltipTemplate(value))}
+            className="text-xs"
+          >
+            Migrate Template
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Remove {"{data.}"} prefixes for cleaner syntax
+          </span>
+        </div>
+      )}
+
+      <div className="p-3 bg-gray-800 text-white rounded text-xs">
+        <div className="text-gray-400 mb-1">Preview</div>
+        {preview !== null
+          ? <div dangerouslySetInnerHTML={{ __html: preview }} />
+          : <div className="text-gray-400">Select data to preview with a real {dataType === 'edge' ? 'link' : 'node'}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default TooltipTemplateField;
@@ -0,0 +1,75 @@
+import type { WorkbookVariable } from '@sigmacomputing/plugin';
+import { NodeSelectionRole } from '../types/sigma';
+
+// Links and nodes the viewer has selected, by link ID and node identity
+export interface ChartSelection {
+  links: string[];
+  nodes: string[];
+}
+
+export const EMPTY_SELECTION: ChartSelection = { links: [], nodes: [] };
+
+/**
+ * Apply a click to the selection. A plain click selects only the clicked item, or
+ * clears the selection when that item was all that was selected; Ctrl/Cmd/Shift
+ * clicks add the item, or remove it when already selected.
+ * @param selection - Current selection
+ * @param kind - Whether a link or a node was clicked
+ * @param key - Link ID or node identity
+ * @param additive - Whether a modifier key was held
+ * @returns The new selection
+ */
+export function updateSelection(
+  selection: ChartSelection,
+  kind: keyof ChartSelection,
+  key: string,
+  additive: boolean
+): ChartSelection {
+  const isSelected = selection[kind].includes(key);
+
+  if (!additive) {
+    const isOnlySelection = isSelected && selection.links.length + selection.nodes.length === 1;
+    return isOnlySelection ? EMPTY_SELECTION : { ...EMPTY_SELECTION, [kind]: [key] };
+  }
+
+  return {
+    ...selection,
+    [kind]: isSelected ? selection[kind].filter(item => item !== key) : [...selection[kind], key]
+  };
+}
+
+/**
+ * Whether a node can be written to the Selected Node control
+ * @param node - Node as drawn, with its computed inflow and outflow
+ * @param role - Column the control filters on, see NodeSelectionRole
+ * @returns False for "Other" nodes, groups and nodes that can't match the column
+ */
+export function isNodeSelectable(
+  node: { members?: string[]; isGroup?: boolean; inflow?: number; outflow?: number },
+  role: NodeSelectionRole
+): boolean {
+  // "Other" nodes and groups stand for several names, none of them in the data as such
+  if (node.isGroup || (node.members && node.members.length > 0)) {
+    return false;
+  }
+  if (role === 'source') {
+    return !!node.outflow;
+  }
+  if (role === 'target') {
+    return !!node.inflow;
+  }
+  return true;
+}
+
+/**
+ * Read the current values of a workbook control, whether it holds one value or a list
+ * @param variable - Variable from useVariable
+ * @returns Non-empty values as strings; empty when the control is cleared or unset
+ */
+export function readVariableValues(variable: WorkbookVariable | undefined): string[] {
+  const value = (variable?.defaultValue as { value?: unknown } | undefined)?.value;
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter(item => item !== null && item !== undefined && item !== '')
+    .map(item => String(item));
+}
@@ -0,0 +1,65 @@
+import { DEFAULT_VIEW, MAX_ZOOM, clampView, zoomView, panView, getSeriesBox, centerOnPoint } from './chartView';
+
+describe('clampView', () => {
+  it('keeps the zoom between the whole diagram and the maximum', () => {
+    expect(clampView({ ...DEFAULT_VIEW, zoom: 0.2 }).zoom).toBe(1);
+    expect(clampView({ ...DEFAULT_VIEW, zoom: 50 }).zoom).toBe(MAX_ZOOM);
+  });
+
+  it('keeps the viewport inside the diagram', () => {
+    expect(clampView({ zoom: 2, centerX: 0, centerY: 1 })).toEqual({ zoom: 2, centerX: 0.25, centerY: 0.75 });
+    expect(clampView({ zoom: 1, centerX: 0.1, centerY: 0.9 })).toEqual(DEFAULT_VIEW);
+  });
+});
+
+describe('zoomView', () => {
+  it('keeps the point under the pointer in place', () => {
+    const view = zoomView(DEFAULT_VIEW, 2, 0.75, 0.75);
+
+    expect(view.zoom).toBe(2);
+    // The diagram point at 75% of the chart area stays at 75% after zooming
+    expect(view.centerX + (0.75 - 0.5) / view.zoom).toBeCloseTo(0.75);
+    expect(view.centerY + (0.75 - 0.5) / view.zoom).toBeCloseTo(0.75);
+  });
+
+  it('stops at the maximum zoom and returns to the whole diagram', () => {
+    expect(zoomView({ ...DEFAULT_VIEW, zoom: MAX_ZOOM }, 2).zoom).toBe(MAX_ZOOM);
+    expect(zoomView({ zoom: 2, centerX: 0.3, centerY: 0.7 }, 0.1)).toEqual(DEFAULT_VIEW);
+  });
+});
+
+describe('panView', () => {
+  it('moves the view against the drag, scaled by the zoom', () => {
+    const view = panView({ zoom: 2, centerX: 0.5, centerY: 0.5 }, 0.1, -0.1);
+
+    expect(view.centerX).toBeCloseTo(0.45);
+    expect(view.centerY).toBeCloseTo(0.55);
+  });
+
+  it('does nothing at zoom 1, where everything is in view', () => {
+    expect(panView(DEFAULT_VIEW, 0.3, 0.3)).toEqual(DEFAULT_VIEW);
+  });
+});
+
+describe('getSeriesBox', () => {
+  it("gives ECharts' default box for the default view", () => {
+    expect(getSeriesBox(DEFAULT_VIEW)).toEqual({ left: '5%', top: '5%', width: '75%', height: '90%' });
+  });
+
+  it('scales the box with the zoom', () => {
+    const box = getSeriesBox({ zoom: 2, centerX: 0.5, centerY: 0.5 });
+
+    expect(box.width).toBe('150%');
+    expect(box.height).toBe('180%');
+  });
+});
+
+describe('centerOnPoint', () => {
+  it('centres on a point of the series box, within the diagram', () => {
+    const view = centerOnPoint({ ...DEFAULT_VIEW, zoom: 4 }, 0.5, 0.5);
+
+    expect(view.centerX).toBeCloseTo(0.425);
+    expect(view.centerY).toBeCloseTo(0.5);
+    expect(centerOnPoint(DEFAULT_VIEW, 0, 0)).toEqual(DEFAULT_VIEW);
+  });
+});
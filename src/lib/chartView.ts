@@ -0,0 +1,116 @@
+/**
+ * Zoom and pan state for the Sankey chart
+ *
+ * ECharts' sankey series has no built-in roaming, so the view is applied by scaling and
+ * offsetting the series' layout box. Positions are fractions of the chart area, which
+ * keeps the view stable across resizes and data refreshes.
+ */
+
+import type { ECharts } from 'echarts';
+
+export interface ChartView {
+  zoom: number; // 1 = whole diagram in view
+  centerX: number; // Point of the diagram at the middle of the chart area, 0-1
+  centerY: number;
+}
+
+export const DEFAULT_VIEW: ChartView = { zoom: 1, centerX: 0.5, centerY: 0.5 };
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 10;
+
+// ECharts' default sankey margins, as fractions of the chart area
+const MARGIN = { left: 0.05, top: 0.05, right: 0.2, bottom: 0.05 };
+
+/**
+ * Keep the zoom in range and the viewport inside the diagram
+ */
+export function clampView(view: ChartView): ChartView {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom));
+  const half = 0.5 / zoom;
+  const clamp = (center: number) => Math.min(1 - half, Math.max(half, center));
+  return { zoom, centerX: clamp(view.centerX), centerY: clamp(view.centerY) };
+}
+
+/**
+ * Zoom by a factor, keeping the point under the pointer where it is
+ * @param view - Current view
+ * @param factor - Zoom multiplier, >1 zooms in
+ * @param pointX - Pointer position as a fraction of the chart area width (default: middle)
+ * @param pointY - Pointer position as a fraction of the chart area height
+ * @returns The new view
+ */
+export function zoomView(view: ChartView, factor: number, pointX = 0.5, pointY = 0.5): ChartView {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom * factor));
+  // Diagram point under the pointer, then re-centre so it stays there
+  const diagramX = view.centerX + (pointX - 0.5) / view.zoom;
+  const diagramY = view.centerY + (pointY - 0.5) / view.zoom;
+  return clampView({
+    zoom,
+    centerX: diagramX - (pointX - 0.5) / zoom,
+    centerY: diagramY - (pointY - 0.5) / zoom
+  });
+}
+
+/**
+ * Move the view by a distance in chart-area fractions, e.g. from a drag
+ */
+export function panView(view: ChartView, deltaX: number, deltaY: number): ChartView {
+  return clampView({
+    ...view,
+    centerX: view.centerX - deltaX / view.zoom,
+    centerY: view.centerY - deltaY / view.zoom
+  });
+}
+
+/**
+ * Layout box of the sankey series for a view, as ECharts percentages
+ * @param view - Current view
+ * @returns left/top/width/height; the default view gives ECharts' default box
+ */
+export function getSeriesBox(view: ChartView): { left: string; top: string; width: string; height: string } {
+  const originX = 0.5 - view.centerX * view.zoom;
+  const originY = 0.5 - view.centerY * view.zoom;
+  const percent = (fraction: number) => `${Number((fraction * 100).toFixed(4))}%`;
+  return {
+    left: percent(originX + MARGIN.left * view.zoom),
+    top: percent(originY + MARGIN.top * view.zoom),
+    width: percent((1 - MARGIN.left - MARGIN.right) * view.zoom),
+    height: percent((1 - MARGIN.top - MARGIN.bottom) * view.zoom)
+  };
+}
+
+/**
+ * Centre the view on a point of the diagram, keeping the zoom
+ * @param view - Current view
+ * @param x - Point as a fraction of the series box width, e.g. from a node's layout
+ * @param y - Point as a fraction of the series box height
+ * @returns The new view (unchanged at zoom 1, where everything is in view)
+ */
+export function centerOnPoint(view: ChartView, x: number, y: number): ChartView {
+  return clampView({
+    ...view,
+    centerX: MARGIN.left + x * (1 - MARGIN.left - MARGIN.right),
+    centerY: MARGIN.top + y * (1 - MARGIN.top - MARGIN.bottom)
+  });
+}
+
+/** Laid-out box of a sankey node, in pixels relative to the series box */
+export interface NodeLayout {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Where ECharts placed a node. The public API has no way to read sankey layouts, so this
+ * goes through the chart's internal model (as in ECharts 5.6); check it when upgrading.
+ * @param chart - Chart showing one sankey series
+ * @param index - Index of the node in the series data
+ * @returns The node's layout, or undefined when the chart hasn't laid it out
+ */
+export function getNodeLayout(chart: ECharts, index: number): NodeLayout | undefined {
+  const model = (chart as unknown as { getModel(): any }).getModel();
+  return model?.getSeriesByIndex(0)?.getData().getItemLayout(index) ?? undefined;
+}
@@ -0,0 +1,80 @@
+/**
+ * Fuzzy matching for node search
+ *
+ * A query matches when its letters and digits appear in order in the text, ignoring
+ * case, accents, spaces and punctuation: "ent emea" finds "Enterprise – EMEA".
+ * Matches score higher when they are contiguous and start at word boundaries.
+ */
+
+export interface FuzzyMatch<T> {
+  item: T;
+  score: number;
+}
+
+// Lowercase and without accents
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Anything but whitespace and punctuation (ASCII, and dashes and quotes from U+2000)
+const isWordCharacter = (char: string | undefined) =>
+  !!char && !/[\s!-/:-@[-`{-~\u2000-\u206f]/.test(char);
+
+/**
+ * Score how well a query matches a text
+ * @param query - What the viewer typed
+ * @param text - Candidate, e.g. a node name
+ * @returns A score (higher is better), or null when the text doesn't match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = Array.from(normalize(query)).filter(char => isWordCharacter(char));
+  if (needle.length === 0) {
+    return null;
+  }
+
+  const haystack = Array.from(normalize(text));
+  let score = 0;
+  let position = 0;
+  let previousMatch = -2;
+
+  for (const char of needle) {
+    while (position < haystack.length && haystack[position] !== char) {
+      position++;
+    }
+    if (position === haystack.length) {
+      return null;
+    }
+
+    score += 1;
+    if (position === previousMatch + 1) {
+      score += 2; // Contiguous with the previous letter
+    }
+    if (!isWordCharacter(haystack[position - 1])) {
+      score += 3; // Start of a word
+    }
+    previousMatch = position;
+    position++;
+  }
+
+  // Prefer shorter texts, where the query covers more of the name
+  return score - haystack.length * 0.01;
+}
+
+/**
+ * Rank items by how well their text matches a query
+ * @param items - Candidates
+ * @param query - What the viewer typed
+ * @param getText - Text to match for an item
+ * @param limit - Maximum number of results
+ * @returns Matching items, best first
+ */
+export function fuzzySearch<T>(items: T[], query: string, getText: (item: T) => string, limit = 20): FuzzyMatch<T>[] {
+  const matches: FuzzyMatch<T>[] = [];
+  items.forEach(item => {
+    const score = fuzzyScore(query, getText(item));
+    if (score !== null) {
+      matches.push({ item, score });
+    }
+  });
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,39 @@
+import { SankeyChartData, SankeyLegendSettings } from '../types/sigma';
+import { calculateFlowStatistics } from './sankeyDataTransform';
+import { getNodeColor } from './nodeColors';
+
+export interface LegendEntry {
+  key: string;
+  label: string;
+  color: string;
+  total: number; // Summed node throughput (the larger of inflow and outflow)
+  nodeNames: string[]; // Node identities the entry stands for
+}
+
+/**
+ * Build the legend entries for the chart data. Nodes sharing a label (e.g. one
+ * per stage) share a color and an entry; when grouping by category, nodes with a
+ * category are listed under it and the rest by name.
+ * @param data - Sankey chart data, before any nodes are hidden
+ * @param groupBy - List nodes, or categories
+ * @returns Entries, largest total first
+ */
+export function buildLegendEntries(data: SankeyChartData, groupBy: SankeyLegendSettings['groupBy']): LegendEntry[] {
+  const { inflow, outflow } = calculateFlowStatistics(data.nodes, data.links);
+  const entries = new Map<string, LegendEntry>();
+
+  data.nodes.forEach(node => {
+    const byCategory = groupBy === 'category' && !!node.category;
+    const label = byCategory ? node.category! : node.label || node.name;
+    const key = `${byCategory ? 'category' : 'node'}::${label}`;
+
+    if (!entries.has(key)) {
+      entries.set(key, { key, label, color: getNodeColor(node), total: 0, nodeNames: [] });
+    }
+    const entry = entries.get(key)!;
+    entry.total += Math.max(inflow.get(node.name) || 0, outflow.get(node.name) || 0);
+    entry.nodeNames.push(node.name);
+  });
+
+  return Array.from(entries.values()).sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,50 @@
+import { SankeyNode } from '../types/sigma';
+
+// Palette that works well for gradients between node colors
+export const NODE_PALETTE = [
+  '#5470c6', '#91cc75', '#fac858', '#ee6666', '#73c0de',
+  '#3ba272', '#fc8452', '#9a60b4', '#ea7ccc', '#8d6e5f',
+  '#dd6b66', '#759aa0', '#e69d87', '#8dc1a9', '#ea7e53'
+];
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/**
+ * Check whether a value from the data is a usable hex color (#rgb, #rgba, #rrggbb or #rrggbbaa)
+ */
+export function isHexColor(value: string | undefined): boolean {
+  return !!value && HEX_COLOR.test(value);
+}
+
+/**
+ * FNV-1a hash, so a string always maps to the same palette slot
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Pick a palette color for a name or category. The same string gets the same
+ * color across filters and refreshes, whatever else is in the data.
+ */
+export function getHashedColor(value: string): string {
+  return NODE_PALETTE[hashString(value) % NODE_PALETTE.length];
+}
+
+/**
+ * Resolve a node's color: an explicit hex color from the data wins, then the
+ * node's category, then its display name
+ * @param node - Sankey node
+ * @returns CSS color
+ */
+export function getNodeColor(node: SankeyNode): string {
+  if (isHexColor(node.color)) {
+    return node.color!;
+  }
+  return getHashedColor(node.category || node.label || node.name);
+}
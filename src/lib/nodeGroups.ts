@@ -0,0 +1,164 @@
+import { SankeyChartData, SankeyLink, SankeyNode, CycleStrategy, LinkAggregation, TooltipColumnAggregation } from '../types/sigma';
+import { aggregateLinks } from './sankeyDataTransform';
+import { breakCycles, detectCycles } from './sankeyCycles';
+import { groupNodeName } from './nodeIdentity';
+
+/**
+ * Identity of the group node a member collapses into
+ * @param node - Member node with a group
+ * @returns Group node identity, qualified by the member's stage when it has one and
+ * by the group column it came from
+ */
+export function getGroupKey(node: SankeyNode): string {
+  return groupNodeName(node.group!, node.stage, node.groupSide);
+}
+
+/**
+ * Links reaching this step are already aggregated per source → target pair, so
+ * re-aggregating them can't count rows again. Counts add up; min, max and average
+ * carry over (an average of averages is unweighted, a distinct count may repeat IDs
+ * shared between pairs).
+ */
+export function getRegroupAggregation(aggregation: LinkAggregation): LinkAggregation {
+  return aggregation === 'min' || aggregation === 'max' || aggregation === 'average' ? aggregation : 'sum';
+}
+
+/**
+ * Merge nodes into other nodes, e.g. members into their group. Links are redirected
+ * to the merged nodes and re-aggregated; flows between nodes merged into the same
+ * node become internal to it and are not drawn.
+ * @param data - Sankey chart data
+ * @param mergedInto - Identity of each merged node -> identity of the node it merges into
+ * @param targetNodes - The nodes merged into, added to the data
+ * @param aggregation - Aggregation used for the data, see getRegroupAggregation
+ * @param columnAggregation - How extra tooltip columns combine, by column name
+ * @returns Merged data; nodes left without links are removed
+ */
+export function mergeNodes(
+  data: SankeyChartData,
+  mergedInto: Map<string, string>,
+  targetNodes: SankeyNode[],
+  aggregation: LinkAggregation,
+  columnAggregation: Record<string, TooltipColumnAggregation>
+): SankeyChartData {
+  const links: SankeyLink[] = [];
+  data.links.forEach(link => {
+    const source = mergedInto.get(String(link.source)) ?? link.source;
+    const target = mergedInto.get(String(link.target)) ?? link.target;
+    if (source === target) {
+      return;
+    }
+
+    const merged: SankeyLink = { ...link, source, target };
+    // A merged link no longer stands for a single row or netted pair
+    if (source !== link.source || target !== link.target) {
+      delete merged.id;
+      delete merged.gross;
+      delete merged.net;
+    }
+    links.push(merged);
+  });
+
+  const linkedNodes = new Set<string>();
+  links.forEach(link => {
+    linkedNodes.add(String(link.source));
+    linkedNodes.add(String(link.target));
+  });
+
+  return {
+    ...data,
+    nodes: [...data.nodes.filter(node => !mergedInto.has(node.name)), ...targetNodes]
+      .filter(node => linkedNodes.has(node.name)),
+    links: aggregateLinks(links, getRegroupAggregation(aggregation), columnAggregation)
+  };
+}
+
+/**
+ * Collapse grouped nodes into one node per group, except for the groups the
+ * viewer has expanded. Links are redirected to the group nodes and re-aggregated
+ * at that level of detail; flows between members of the same collapsed group
+ * become internal to it and are not drawn.
+ * @param data - Sankey chart data whose nodes may carry a `group`
+ * @param expandedGroups - Identities of the group nodes currently expanded
+ * @param aggregation - Aggregation used for the data, see getRegroupAggregation
+ * @param columnAggregation - How extra tooltip columns combine, by column name
+ * @returns Data at the current level of detail (unchanged when nothing is grouped)
+ */
+export function collapseGroups(
+  data: SankeyChartData,
+  expandedGroups: Set<string>,
+  aggregation: LinkAggregation = 'sum',
+  columnAggregation: Record<string, TooltipColumnAggregation> = {}
+): SankeyChartData {
+  const collapsedInto = new Map<string, string>(); // member name -> group node name
+  const groupNodes = new Map<string, SankeyNode>();
+
+  data.nodes.forEach(node => {
+    if (!node.group || expandedGroups.has(getGroupKey(node))) {
+      return;
+    }
+
+    const groupKey = getGroupKey(node);
+    if (!groupNodes.has(groupKey)) {
+      groupNodes.set(groupKey, {
+        name: groupKey,
+        label: node.group,
+        stage: node.stage,
+        members: [],
+        isGroup: true
+      });
+    }
+
+    const members = groupNodes.get(groupKey)!.members!;
+    const memberName = node.label || node.name;
+    if (!members.includes(memberName)) {
+      members.push(memberName);
+    }
+    collapsedInto.set(node.name, groupKey);
+  });
+
+  if (groupNodes.size === 0) {
+    return data;
+  }
+
+  // Groups whose every flow was internal have nothing left to draw
+  return mergeNodes(data, collapsedInto, Array.from(groupNodes.values()), aggregation, columnAggregation);
+}
+
+/**
+ * Collapse groups as collapseGroups does, resolving any cycle the merge creates the
+ * way the data's cycle strategy says. With no strategy ('none'), nothing may be dropped,
+ * so the groups on a cycle stay expanded instead.
+ * @param data - Sankey chart data, acyclic
+ * @param expandedGroups - Identities of the group nodes the viewer has expanded
+ * @param strategy - Cycle strategy from the data settings
+ * @param aggregation - Aggregation used for the data, see getRegroupAggregation
+ * @param columnAggregation - How extra tooltip columns combine, by column name
+ * @returns Acyclic data at the current level of detail
+ */
+export function collapseGroupsAcyclic(
+  data: SankeyChartData,
+  expandedGroups: Set<string>,
+  strategy: CycleStrategy,
+  aggregation: LinkAggregation = 'sum',
+  columnAggregation: Record<string, TooltipColumnAggregation> = {}
+): SankeyChartData {
+  if (strategy !== 'none') {
+    const collapsed = collapseGroups(data, expandedGroups, aggregation, columnAggregation);
+    return collapsed === data ? data : breakCycles(collapsed, strategy);
+  }
+
+  let expanded = expandedGroups;
+  for (;;) {
+    const collapsed = collapseGroups(data, expanded, aggregation, columnAggregation);
+    const groupNames = new Set(collapsed.nodes.filter(node => node.isGroup).map(node => node.name));
+    const groupsOnCycles = detectCycles(collapsed)
+      .reduce((names, cycle) => names.concat(cycle), [] as string[])
+      .filter(name => groupNames.has(name));
+
+    if (groupsOnCycles.length === 0) {
+      return collapsed;
+    }
+    expanded = new Set(Array.from(expanded).concat(groupsOnCycles));
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Node identity helpers. A node's `name` is its identity within the chart; when
+ * the same display name has to appear more than once (e.g. at several stages),
+ * the identity is qualified and the plain name is kept as the node's label.
+ */
+
+const STAGE_SEPARATOR = '::';
+
+/**
+ * Build a stage-qualified node identity
+ * @param name - Plain node name
+ * @param stage - Stage, level or depth that distinguishes this occurrence
+ * @returns Qualified identity, e.g. "Homepage::3"
+ */
+export function qualifyNodeName(name: string, stage: string | number): string {
+  return `${name}${STAGE_SEPARATOR}${stage}`;
+}
+
+/**
+ * Build the identity of a collapsed group node
+ * @param group - Group name from the Source/Target Group column
+ * @param stage - Stage of the members, when identities are stage-qualified
+ * @param side - Group column the name came from, so same-named source and target groups differ
+ * @returns Identity that can't clash with member names, e.g. "__group__::source::EMEA"
+ */
+export function groupNodeName(group: string, stage?: number, side: 'source' | 'target' = 'source'): string {
+  const name = `__group__${STAGE_SEPARATOR}${side}${STAGE_SEPARATOR}${group}`;
+  return stage === undefined ? name : qualifyNodeName(name, stage);
+}
+
+/**
+ * Build the identity of the "Other" node that nodes collapsed from the chart's
+ * context menu merge into
+ * @param stage - Stage of the collapsed nodes, when identities are stage-qualified
+ * @returns Identity that can't clash with node names, e.g. "__collapsed__::Other"
+ */
+export function collapsedNodeName(stage?: number): string {
+  const name = `__collapsed__${STAGE_SEPARATOR}Other`;
+  return stage === undefined ? name : qualifyNodeName(name, stage);
+}
+
+/**
+ * Build the identity of the "Other" node that collects a source's small flows
+ * @param source - Identity of the source node
+ * @returns Identity unique to that source, e.g. "__other__::Homepage"
+ */
+export function otherNodeName(source: string): string {
+  return `__other__${STAGE_SEPARATOR}${source}`;
+}
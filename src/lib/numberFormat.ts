@@ -0,0 +1,93 @@
+import type { WorkbookElementColumn } from '@sigmacomputing/plugin';
+import type { SankeyNumberFormatSettings } from '../types/sigma';
+
+// Format fields the plugin can derive from a Sigma column
+export type ColumnNumberFormat = Partial<Pick<SankeyNumberFormatSettings, 'style' | 'compact' | 'decimals' | 'currency'>>;
+
+// The es6 lib typings predate compact notation
+type NumberFormatOptions = Intl.NumberFormatOptions & { notation?: 'standard' | 'compact' };
+
+/**
+ * Default number format for a Sigma column. The plugin API (1.0.9) exposes a
+ * column's type but not its number format, so the default comes from the type:
+ * integer columns show no decimals, other numbers a plain number.
+ * @param column - Column from useElementColumns
+ * @returns Format fields implied by the column, empty when unknown
+ */
+export function getColumnNumberFormat(column: WorkbookElementColumn | undefined): ColumnNumberFormat {
+  switch (column?.columnType) {
+    case 'integer':
+      return { style: 'number', decimals: 0 };
+    case 'number':
+      return { style: 'number' };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Resolve 'auto' format settings against the value column's default format,
+ * falling back to a plain number
+ */
+export function resolveNumberFormat(
+  settings: SankeyNumberFormatSettings,
+  columnFormat: ColumnNumberFormat = {}
+): SankeyNumberFormatSettings {
+  if (settings.style !== 'auto') {
+    return settings;
+  }
+
+  return {
+    ...settings,
+    style: 'number',
+    ...columnFormat,
+    // Explicit decimals in settings still win over the column's
+    decimals: settings.decimals ?? columnFormat.decimals ?? null
+  };
+}
+
+/**
+ * Build a number formatter for labels, tooltips and exports
+ * @param settings - Format settings from SankeySettings
+ * @param columnFormat - Format of the value column in Sigma, used when the style is 'auto'
+ * @returns Function formatting a value, e.g. 1234567.89 -> "$1.23M"
+ */
+export function createNumberFormatter(
+  settings: SankeyNumberFormatSettings,
+  columnFormat?: ColumnNumberFormat
+): (value: number) => string {
+  const format = resolveNumberFormat(settings, columnFormat);
+  const options: NumberFormatOptions = {};
+
+  if (format.style === 'currency') {
+    options.style = 'currency';
+    options.currency = format.currency || 'USD';
+  } else if (format.style === 'percent') {
+    options.style = 'percent';
+  }
+
+  if (format.compact) {
+    options.notation = 'compact';
+  }
+
+  if (format.decimals !== null && format.decimals >= 0) {
+    options.minimumFractionDigits = format.decimals;
+    options.maximumFractionDigits = format.decimals;
+  }
+
+  let numberFormat: Intl.NumberFormat;
+  try {
+    numberFormat = new Intl.NumberFormat(format.locale || undefined, options);
+  } catch (err) {
+    // Unknown locale or currency code - fall back to the browser's defaults
+    console.error('Invalid number format settings:', err);
+    numberFormat = new Intl.NumberFormat(undefined, { notation: options.notation });
+  }
+
+  return (value: number): string => {
+    if (typeof value !== 'number' || isNaN(value)) {
+      return String(value ?? '');
+    }
+    return `${format.prefix}${numberFormat.format(value)}${format.suffix}`;
+  };
+}
@@ -0,0 +1,155 @@
+import { SankeyChartData, SankeyLink, SankeyNode, CycleStrategy } from '../types/sigma';
+import { qualifyNodeName } from './nodeIdentity';
+
+interface BackEdge {
+  linkIndex: number;
+  depth: number;    // Depth of the link's source along the DFS path
+  cycle: string[];  // Node names from the re-entered node back to itself
+}
+
+/**
+ * Walk the graph depth-first and collect every link that points back into the
+ * current path. Traversal starts from nodes with no incoming links so that
+ * "back" follows the natural direction of flow.
+ * @param nodes - Array of Sankey nodes
+ * @param links - Array of Sankey links
+ * @returns Back edges with the cycle each one closes
+ */
+function findBackEdges(nodes: SankeyNode[], links: SankeyLink[]): BackEdge[] {
+  const outgoing = new Map<string, number[]>();
+  const inDegree = new Map<string, number>();
+
+  nodes.forEach(node => inDegree.set(node.name, 0));
+  links.forEach((link, index) => {
+    const sourceName = String(link.source);
+    const targetName = String(link.target);
+    if (!outgoing.has(sourceName)) {
+      outgoing.set(sourceName, []);
+    }
+    outgoing.get(sourceName)!.push(index);
+    inDegree.set(targetName, (inDegree.get(targetName) || 0) + 1);
+    if (!inDegree.has(sourceName)) {
+      inDegree.set(sourceName, 0);
+    }
+  });
+
+  const roots = Array.from(inDegree.keys()).sort((a, b) => inDegree.get(a)! - inDegree.get(b)!);
+  const finished = new Set<string>();
+  const onPath = new Map<string, number>(); // node name -> position in current path
+  const backEdges: BackEdge[] = [];
+
+  roots.forEach(root => {
+    if (finished.has(root)) return;
+
+    // Iterative DFS so long journeys can't overflow the call stack
+    const path: string[] = [root];
+    const cursor: number[] = [0];
+    onPath.set(root, 0);
+
+    while (path.length > 0) {
+      const current = path[path.length - 1];
+      const edges = outgoing.get(current) || [];
+      const position = cursor[cursor.length - 1];
+
+      if (position >= edges.length) {
+        path.pop();
+        cursor.pop();
+        onPath.delete(current);
+        finished.add(current);
+        continue;
+      }
+
+      cursor[cursor.length - 1]++;
+      const linkIndex = edges[position];
+      const next = String(links[linkIndex].target);
+
+      if (onPath.has(next)) {
+        backEdges.push({
+          linkIndex,
+          depth: path.length - 1,
+          cycle: [...path.slice(onPath.get(next)!), next]
+        });
+      } else if (!finished.has(next)) {
+        onPath.set(next, path.length);
+        path.push(next);
+        cursor.push(0);
+      }
+    }
+  });
+
+  return backEdges;
+}
+
+/**
+ * Find the cycles in Sankey data. Each cycle is reported once, as the path of
+ * node names that returns to its starting node (e.g. ['A', 'B', 'A']).
+ * @param data - Sankey chart data to inspect
+ * @returns Array of cycle paths, empty when the data is acyclic
+ */
+export function detectCycles(data: SankeyChartData): string[][] {
+  return findBackEdges(data.nodes, data.links).map(edge => edge.cycle);
+}
+
+/**
+ * Remove cycles from Sankey data using the chosen strategy
+ * - dropBackEdges: discard each link that closes a cycle
+ * - splitNodes: point each such link at a stage-qualified copy of its target,
+ *   so the repeated visit becomes its own node further along the flow
+ * @param data - Sankey chart data, typically after aggregation
+ * @param strategy - Cycle strategy from settings
+ * @returns Acyclic data (unchanged when the strategy is 'none')
+ */
+export function breakCycles(data: SankeyChartData, strategy: CycleStrategy): SankeyChartData {
+  if (strategy === 'none') {
+    return data;
+  }
+
+  const backEdges = findBackEdges(data.nodes, data.links);
+  if (backEdges.length === 0) {
+    return data;
+  }
+
+  if (strategy === 'dropBackEdges') {
+    const dropped = new Set(backEdges.map(edge => edge.linkIndex));
+    return {
+      nodes: data.nodes,
+      links: data.links.filter((_, index) => !dropped.has(index))
+    };
+  }
+
+  // splitNodes
+  const nodesByName = new Map(data.nodes.map(node => [node.name, node]));
+  const copies = new Map<string, SankeyNode>();
+  const copyNames = new Map<string, string>(); // qualified target name -> copy identity
+  const links = data.links.map(link => ({ ...link }));
+
+  backEdges.forEach(edge => {
+    const link = links[edge.linkIndex];
+    const targetName = String(link.target);
+    const original = nodesByName.get(targetName);
+    const qualifiedName = qualifyNodeName(targetName, edge.depth + 1);
+
+    // Reuse the copy of this target at this depth; a new copy must not take the
+    // identity of a node (or copy) that already exists, e.g. a node named "Home::2"
+    let copyName = copyNames.get(qualifiedName);
+    if (copyName === undefined) {
+      copyName = qualifiedName;
+      for (let suffix = 2; nodesByName.has(copyName) || copies.has(copyName); suffix++) {
+        copyName = qualifyNodeName(qualifiedName, suffix);
+      }
+      copyNames.set(qualifiedName, copyName);
+      copies.set(copyName, {
+        ...original,
+        name: copyName,
+        label: original?.label || targetName
+      });
+    }
+
+    link.target = copyName;
+  });
+
+  return {
+    nodes: [...data.nodes, ...Array.from(copies.values())],
+    links
+  };
+}
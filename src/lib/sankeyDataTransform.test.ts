@@ -0,0 +1,77 @@
+import { rollupSmallFlows, transformEventLogToSankey, transformPathDataToSankey, transformSigmaDataToSankey } from './sankeyDataTransform';
+import { SankeyChartData, SankeyLink } from '../types/sigma';
+
+const sum = (links: SankeyLink[]) => links.reduce((total, link) => total + link.value, 0);
+
+describe('rollupSmallFlows', () => {
+  // Visit -> (Signup | Bounce | Help | Docs) -> Purchase; Signup is a small middle stage
+  const data: SankeyChartData = {
+    nodes: ['Visit', 'Signup', 'Bounce', 'Help', 'Docs', 'Purchase'].map(name => ({ name })),
+    links: [
+      { source: 'Visit', target: 'Bounce', value: 100 },
+      { source: 'Visit', target: 'Signup', value: 5 },
+      { source: 'Visit', target: 'Help', value: 3 },
+      { source: 'Visit', target: 'Docs', value: 2 },
+      { source: 'Signup', target: 'Purchase', value: 5 },
+    ]
+  };
+
+  it('keeps flow through a middle stage balanced', () => {
+    const result = rollupSmallFlows(data, { topNTargets: 1, minFlowPercent: 0, minFlowBasis: 'total' });
+
+    const inflow = sum(result.links.filter(link => link.target === 'Signup'));
+    const outflow = sum(result.links.filter(link => link.source === 'Signup'));
+    expect(inflow).toBe(5);
+    expect(outflow).toBe(inflow);
+  });
+
+  it('rolls small flows into end nodes up into "Other"', () => {
+    const result = rollupSmallFlows(data, { topNTargets: 1, minFlowPercent: 0, minFlowBasis: 'total' });
+
+    const other = result.nodes.find(node => node.label === 'Other');
+    expect(other?.members).toEqual(['Help', 'Docs']);
+    expect(sum(result.links.filter(link => link.source === 'Visit'))).toBe(110);
+  });
+});
+
+describe('transformEventLogToSankey', () => {
+  it('reports cases with a single activity as skipped without Start/End nodes', () => {
+    const eventLog = {
+      case: ['1', '1', '2', '2'],
+      time: ['2024-01-01', '2024-01-02', '2024-01-01', '2024-01-02'],
+      activity: ['Open', 'Close', 'Open', 'Open']
+    };
+
+    const result = transformEventLogToSankey(eventLog, 'case', 'time', 'activity', false);
+
+    expect(result.links).toHaveLength(1);
+    expect(result.skippedRows?.skippedRows).toBe(2);
+    expect(result.skippedRows?.reasons.singleActivityCase?.sampleRows).toEqual([2, 3]);
+  });
+});
+
+describe('reversed flows with stage identity', () => {
+  const options = { qualifyByStage: true, signedFlows: 'reverse' as const };
+  const endpoints = (links: SankeyLink[]) => links.map(link => `${link.source} -> ${link.target}`);
+
+  it('numbers stages the same way in Path and Source/Target mode', () => {
+    const path = transformPathDataToSankey(
+      { first: ['Ad'], second: ['Visit'], third: ['Signup'], value: [-5] },
+      ['first', 'second', 'third'],
+      'value',
+      undefined,
+      options
+    );
+    const sourceTarget = transformSigmaDataToSankey(
+      { source: ['Ad', 'Visit'], target: ['Visit', 'Signup'], stage: [1, 2], value: [-5, -5] },
+      'source',
+      'target',
+      'value',
+      undefined,
+      { ...options, stageColumn: 'stage' }
+    );
+
+    expect(endpoints(path.links)).toEqual(['Visit::1 -> Ad::2', 'Signup::2 -> Visit::3']);
+    expect(endpoints(sourceTarget.links)).toEqual(endpoints(path.links));
+  });
+});
@@ -1,31 +1,214 @@
-import { SigmaData, SankeyChartData, SankeyNode, SankeyLink } from '../types/sigma';
+import {
+  SigmaData,
+  SankeyChartData,
+  SankeyNode,
+  SankeyLink,
+  LinkAggregation,
+  SkipReason,
+  SkippedRowReport,
+  SignedFlowMode,
+  NodeSort,
+  TooltipColumnAggregation,
+  TooltipColumnValue
+} from '../types/sigma';
+import { detectCycles } from './sankeyCycles';
+import { qualifyNodeName, otherNodeName } from './nodeIdentity';
+
+// Cap on how many cycle paths are listed individually in validation errors
+const MAX_REPORTED_CYCLES = 5;
+
+// How many example row indices are kept per skip reason
+const MAX_SAMPLE_ROWS = 5;
+
+export interface TransformOptions {
+  // Make the stage part of each node's identity, so one name can appear at several depths
+  qualifyByStage?: boolean;
+  // Source/Target mode: column holding each row's source stage (the target sits one stage later)
+  stageColumn?: string;
+  // Negative values are dropped unless this is 'reverse' or 'net'
+  signedFlows?: SignedFlowMode;
+  // Source/Target mode: columns naming the group each source and target collapses into
+  sourceGroupColumn?: string;
+  targetGroupColumn?: string;
+  // Columns describing the node each row belongs to (the source in Source/Target
+  // mode, the activity in Event Log mode): a category, an explicit hex color and a sort key
+  categoryColumn?: string;
+  colorColumn?: string;
+  sortColumn?: string;
+  // Source/Target mode: category, color and sort key of each row's target node
+  targetCategoryColumn?: string;
+  targetColorColumn?: string;
+  targetSortColumn?: string;
+  // Source/Target and Path modes: extra columns carried on each link for tooltips
+  tooltipColumns?: TooltipColumn[];
+}
+
+export interface TooltipColumn {
+  id: string;
+  name: string; // Display name, used in {col:Name}
+  isDate?: boolean; // Sigma sends datetimes as epoch milliseconds
+}
+
+// Node attributes read from optional columns
+type NodeAttributes = Partial<Pick<SankeyNode, 'group' | 'groupSide' | 'category' | 'color' | 'sortKey'>>;
+
+/**
+ * Register a node, qualified by stage when one is given
+ * @param attributes - Group, category, color and sort key; the first non-empty value seen for each wins
+ * @returns The node's identity for use in links
+ */
+function addNode(nodeMap: Map<string, SankeyNode>, name: string, stage?: number, attributes: NodeAttributes = {}): string {
+  const key = stage === undefined ? name : qualifyNodeName(name, stage);
+  if (!nodeMap.has(key)) {
+    nodeMap.set(key, stage === undefined ? { name } : { name: key, label: name, stage });
+  }
+  const node = nodeMap.get(key)!;
+  (Object.keys(attributes) as (keyof NodeAttributes)[]).forEach(attribute => {
+    if (attributes[attribute] && !node[attribute]) {
+      Object.assign(node, { [attribute]: attributes[attribute] });
+    }
+  });
+  return key;
+}
+
+/**
+ * Read a row's category, color and sort order cells
+ */
+function readNodeAttributes(
+  categoryData: (string | number | boolean | null)[],
+  colorData: (string | number | boolean | null)[],
+  sortData: (string | number | boolean | null)[],
+  row: number
+): NodeAttributes {
+  return {
+    category: String(categoryData[row] ?? '').trim(),
+    color: String(colorData[row] ?? '').trim(),
+    sortKey: String(sortData[row] ?? '').trim()
+  };
+}
+
+/**
+ * Read a row's group cell, with the side it describes so that a source group and a
+ * target group of the same name (e.g. Region → Region) collapse into separate nodes
+ */
+function readGroup(groupData: (string | number | boolean | null)[], side: 'source' | 'target', row: number): NodeAttributes {
+  const group = String(groupData[row] ?? '').trim();
+  return group ? { group, groupSide: side } : {};
+}
+
+/**
+ * Record a row that produced no flow under the reason it was dropped
+ */
+function recordSkippedRow(report: SkippedRowReport, reason: SkipReason, row: number): void {
+  const entry = report.reasons[reason] || (report.reasons[reason] = { count: 0, sampleRows: [] });
+  entry.count++;
+  if (entry.sampleRows.length < MAX_SAMPLE_ROWS) {
+    entry.sampleRows.push(row);
+  }
+  report.skippedRows++;
+}
+
+/**
+ * Read a row's extra tooltip columns, keyed by column name
+ * @returns The row's values, or undefined when no tooltip columns are configured
+ */
+function readTooltipColumns(
+  sigmaData: SigmaData,
+  tooltipColumns: TooltipColumn[],
+  row: number
+): Record<string, TooltipColumnValue> | undefined {
+  if (tooltipColumns.length === 0) {
+    return undefined;
+  }
+
+  const columns: Record<string, TooltipColumnValue> = {};
+  tooltipColumns.forEach(column => {
+    const raw = (sigmaData[column.id] || [])[row];
+    columns[column.name] = raw === null || raw === undefined || raw === '' ? null
+      : column.isDate && typeof raw === 'number' ? new Date(raw).toISOString().slice(0, 10)
+      : typeof raw === 'boolean' ? String(raw)
+      : raw;
+  });
+  return columns;
+}
+
+/**
+ * Read a row's flow value
+ * @param raw - Cell from the value column
+ * @param allowNegative - Keep negative values (signed flows) instead of skipping them
+ * @returns The usable value, or the reason the row can't flow
+ */
+function parseFlowValue(raw: string | number | boolean | null | undefined, allowNegative: boolean): number | SkipReason {
+  if (raw === null || raw === undefined || String(raw).trim() === '') {
+    return 'missingValue';
+  }
+
+  const value = Number(raw);
+  if (isNaN(value)) {
+    return 'nonNumericValue';
+  }
+  return value > 0 || (allowNegative && value < 0) ? value : 'nonPositiveValue';
+}
+
+/**
+ * Order the distinct values of a stage column into levels. Numeric stages sort
+ * numerically; anything else sorts naturally ("Step 2" before "Step 10").
+ * @returns Map from stage value to its 1-based level
+ */
+function buildStageLevels(stageData: (string | number | boolean | null)[]): Map<string, number> {
+  const values = Array.from(new Set(
+    stageData
+      .filter(value => value !== null && value !== undefined && String(value).trim() !== '')
+      .map(value => String(value).trim())
+  ));
+  const allNumeric = values.every(value => !isNaN(Number(value)));
+
+  values.sort((a, b) => allNumeric
+    ? Number(a) - Number(b)
+    : a.localeCompare(b, undefined, { numeric: true }));
+
+  return new Map(values.map((value, index) => [value, index + 1]));
+}
 
 /**
  * Transform Sigma data into ECharts Sankey format
  * @param sigmaData - Raw data from Sigma
  * @param sourceColumn - Column name for source nodes
  * @param targetColumn - Column name for target nodes  
- * @param valueColumn - Column name for flow values
+ * @param valueColumn - Column name for flow values; when empty every row counts as 1
  * @param idColumn - Column name for link IDs (optional)
+ * @param options - Node identity options (optional)
  * @returns Formatted data for ECharts Sankey chart
  */
 export function transformSigmaDataToSankey(
   sigmaData: SigmaData,
   sourceColumn: string,
   targetColumn: string,
-  valueColumn: string,
-  idColumn?: string
+  valueColumn: string | undefined,
+  idColumn?: string,
+  options: TransformOptions = {}
 ): SankeyChartData {
-  if (!sigmaData || !sourceColumn || !targetColumn || !valueColumn) {
+  if (!sigmaData || !sourceColumn || !targetColumn) {
     return { nodes: [], links: [] };
   }
 
   const sourceData = sigmaData[sourceColumn] || [];
   const targetData = sigmaData[targetColumn] || [];
-  const valueData = sigmaData[valueColumn] || [];
+  const valueData = valueColumn ? sigmaData[valueColumn] || [] : [];
   const idData = idColumn ? sigmaData[idColumn] || [] : [];
+  const stageData = options.qualifyByStage && options.stageColumn ? sigmaData[options.stageColumn] || [] : [];
+  const stageLevels = buildStageLevels(stageData);
+  const sourceGroupData = options.sourceGroupColumn ? sigmaData[options.sourceGroupColumn] || [] : [];
+  const targetGroupData = options.targetGroupColumn ? sigmaData[options.targetGroupColumn] || [] : [];
+  const categoryData = options.categoryColumn ? sigmaData[options.categoryColumn] || [] : [];
+  const colorData = options.colorColumn ? sigmaData[options.colorColumn] || [] : [];
+  const sortData = options.sortColumn ? sigmaData[options.sortColumn] || [] : [];
+  const targetCategoryData = options.targetCategoryColumn ? sigmaData[options.targetCategoryColumn] || [] : [];
+  const targetColorData = options.targetColorColumn ? sigmaData[options.targetColorColumn] || [] : [];
+  const targetSortData = options.targetSortColumn ? sigmaData[options.targetSortColumn] || [] : [];
+  const isSigned = !!options.signedFlows && options.signedFlows !== 'drop';
 
-  if (sourceData.length !== targetData.length || sourceData.length !== valueData.length) {
+  if (sourceData.length !== targetData.length || (valueColumn && sourceData.length !== valueData.length)) {
     console.error('Sankey data columns must have equal length');
     return { nodes: [], links: [] };
   }
@@ -35,44 +218,87 @@ export function transformSigmaDataToSankey(
     return { nodes: [], links: [] };
   }
 
+  if (stageData.length > 0 && stageData.length !== sourceData.length) {
+    console.error('Stage column must have the same length as other columns');
+    return { nodes: [], links: [] };
+  }
+
+  if ((sourceGroupData.length > 0 && sourceGroupData.length !== sourceData.length) ||
+      (targetGroupData.length > 0 && targetGroupData.length !== sourceData.length)) {
+    console.error('Group columns must have the same length as other columns');
+    return { nodes: [], links: [] };
+  }
+
+  if ((categoryData.length > 0 && categoryData.length !== sourceData.length) ||
+      (colorData.length > 0 && colorData.length !== sourceData.length) ||
+      (sortData.length > 0 && sortData.length !== sourceData.length) ||
+      (targetCategoryData.length > 0 && targetCategoryData.length !== sourceData.length) ||
+      (targetColorData.length > 0 && targetColorData.length !== sourceData.length) ||
+      (targetSortData.length > 0 && targetSortData.length !== sourceData.length)) {
+    console.error('Category, color and sort order columns must have the same length as other columns');
+    return { nodes: [], links: [] };
+  }
+
   // Track unique nodes - let ECharts handle all sizing calculations
-  const nodeNames = new Set<string>();
+  const nodeMap = new Map<string, SankeyNode>();
   const links: SankeyLink[] = [];
+  const skippedRows: SkippedRowReport = { totalRows: sourceData.length, skippedRows: 0, reasons: {} };
 
   // Process each data row
   for (let i = 0; i < sourceData.length; i++) {
     const source = String(sourceData[i] || '').trim();
     const target = String(targetData[i] || '').trim();
-    const value = Number(valueData[i]) || 0;
+    const value = valueColumn ? parseFlowValue(valueData[i], isSigned) : 1;
     const id = idColumn ? String(idData[i] || '') : undefined;
 
-    // Skip invalid rows
-    if (!source || !target || value <= 0) {
+    // Skip invalid rows, recording why
+    if (!source) {
+      recordSkippedRow(skippedRows, 'emptySource', i);
+      continue;
+    }
+    if (!target) {
+      recordSkippedRow(skippedRows, 'emptyTarget', i);
+      continue;
+    }
+    if (typeof value === 'string') {
+      recordSkippedRow(skippedRows, value, i);
       continue;
     }
 
-    // Track unique node names
-    nodeNames.add(source);
-    nodeNames.add(target);
+    // Rows without a stage fall back to plain names
+    const stage = stageLevels.get(String(stageData[i] ?? '').trim());
+    // A negative signed value is a flow in the opposite direction; the link still
+    // runs from the row's stage to the next, see transformPathDataToSankey
+    const reversed = value < 0;
+    // Category, color and sort key describe the row's source node; the target columns its target
+    const sourceAttributes = { ...readNodeAttributes(categoryData, colorData, sortData, i), ...readGroup(sourceGroupData, 'source', i) };
+    const targetAttributes = { ...readNodeAttributes(targetCategoryData, targetColorData, targetSortData, i), ...readGroup(targetGroupData, 'target', i) };
 
     // Add link with optional ID
     const link: SankeyLink = {
-      source: source,
-      target: target,
-      value: value
+      source: addNode(nodeMap, reversed ? target : source, stage, reversed ? targetAttributes : sourceAttributes),
+      target: addNode(nodeMap, reversed ? source : target, stage === undefined ? undefined : stage + 1, reversed ? sourceAttributes : targetAttributes),
+      value: Math.abs(value)
     };
 
+    if (isSigned) {
+      link.direction = reversed ? 'inflow' : 'outflow';
+    }
+
     if (id) {
       link.id = id;
     }
 
+    const columns = readTooltipColumns(sigmaData, options.tooltipColumns || [], i);
+    if (columns) {
+      link.columns = columns;
+    }
+
     links.push(link);
   }
 
-  // Convert node names to node objects - let ECharts calculate node values automatically from links
-  const nodes: SankeyNode[] = Array.from(nodeNames).map(nodeName => ({
-    name: nodeName
-  }));
+  // Let ECharts calculate node values automatically from links
+  const nodes: SankeyNode[] = Array.from(nodeMap.values());
 
   // Debug logging
   if (nodes.length > 0) {
@@ -80,28 +306,496 @@ export function transformSigmaDataToSankey(
     console.log('Nodes:', nodes.map(n => n.name).join(', '));
   }
 
-  return { nodes, links };
+  return { nodes, links, skippedRows };
 }
 
 /**
- * Aggregate duplicate links by summing their values
- * @param links - Array of Sankey links
+ * Transform path-shaped Sigma data (one row per journey, one column per stage)
+ * into ECharts Sankey format. Each adjacent pair of stages becomes a link;
+ * a row stops flowing at its first empty stage.
+ * @param sigmaData - Raw data from Sigma
+ * @param stageColumns - Column names for each stage, in order
+ * @param valueColumn - Column name for flow values; when empty every row counts as 1
+ * @param idColumn - Column name for link IDs (optional)
+ * @param options - Node identity options; stages are the column positions (optional). The
+ * category, color and sort order columns don't apply: a row holds a node for every stage
+ * @returns Formatted data for ECharts Sankey chart
+ */
+export function transformPathDataToSankey(
+  sigmaData: SigmaData,
+  stageColumns: string[],
+  valueColumn: string | undefined,
+  idColumn?: string,
+  options: TransformOptions = {}
+): SankeyChartData {
+  if (!sigmaData || !stageColumns || stageColumns.length < 2) {
+    return { nodes: [], links: [] };
+  }
+
+  const stageData = stageColumns.map(column => sigmaData[column] || []);
+  const valueData = valueColumn ? sigmaData[valueColumn] || [] : [];
+  const idData = idColumn ? sigmaData[idColumn] || [] : [];
+  const rowCount = stageData[0].length;
+  const isSigned = !!options.signedFlows && options.signedFlows !== 'drop';
+
+  if (stageData.some(column => column.length !== rowCount) || (valueColumn && valueData.length !== rowCount)) {
+    console.error('Stage columns must have the same length as the value column');
+    return { nodes: [], links: [] };
+  }
+
+  if (idColumn && idData.length !== rowCount) {
+    console.error('ID column must have the same length as other columns');
+    return { nodes: [], links: [] };
+  }
+
+  const nodeMap = new Map<string, SankeyNode>();
+  const links: SankeyLink[] = [];
+  const skippedRows: SkippedRowReport = { totalRows: rowCount, skippedRows: 0, reasons: {} };
+
+  for (let i = 0; i < rowCount; i++) {
+    const value = valueColumn ? parseFlowValue(valueData[i], isSigned) : 1;
+    const id = idColumn ? String(idData[i] || '') : undefined;
+
+    // Collect stages until the first empty one - the row simply stops flowing there
+    const path: string[] = [];
+    for (const column of stageData) {
+      const stage = String(column[i] || '').trim();
+      if (!stage) {
+        break;
+      }
+      path.push(stage);
+    }
+
+    if (path.length < 2) {
+      recordSkippedRow(skippedRows, 'incompletePath', i);
+      continue;
+    }
+    if (typeof value === 'string') {
+      recordSkippedRow(skippedRows, value, i);
+      continue;
+    }
+
+    // A negative signed value turns every step around. As in Source/Target mode, the
+    // step's stage goes to whichever node the reversed link starts from
+    const reversed = value < 0;
+    const columns = readTooltipColumns(sigmaData, options.tooltipColumns || [], i);
+
+    for (let step = 0; step < path.length - 1; step++) {
+      const [from, to] = reversed ? [path[step + 1], path[step]] : [path[step], path[step + 1]];
+      const link: SankeyLink = {
+        source: addNode(nodeMap, from, options.qualifyByStage ? step + 1 : undefined),
+        target: addNode(nodeMap, to, options.qualifyByStage ? step + 2 : undefined),
+        value: Math.abs(value)
+      };
+
+      if (id) {
+        link.id = id;
+      }
+
+      if (isSigned) {
+        link.direction = reversed ? 'inflow' : 'outflow';
+      }
+
+      if (columns) {
+        link.columns = columns;
+      }
+
+      links.push(link);
+    }
+  }
+
+  const nodes: SankeyNode[] = Array.from(nodeMap.values());
+  return { nodes, links, skippedRows };
+}
+
+// Identities for the synthetic nodes that frame each case in Event Log mode
+const START_NODE = { name: '__start__', label: 'Start' };
+const END_NODE = { name: '__end__', label: 'End' };
+
+/**
+ * Compare two event timestamps. Sigma sends datetimes as epoch milliseconds,
+ * but text timestamps are parsed as dates, falling back to plain text order.
+ */
+function compareTimestamps(a: string | number | boolean | null, b: string | number | boolean | null): number {
+  const aNumber = typeof a === 'number' ? a : Date.parse(String(a ?? ''));
+  const bNumber = typeof b === 'number' ? b : Date.parse(String(b ?? ''));
+
+  if (!isNaN(aNumber) && !isNaN(bNumber)) {
+    return aNumber - bNumber;
+  }
+  return String(a ?? '').localeCompare(String(b ?? ''), undefined, { numeric: true });
+}
+
+/**
+ * Transform an event log (one row per event) into ECharts Sankey format.
+ * Events are grouped by case and ordered by timestamp; each consecutive pair of
+ * activities in a case becomes a link worth 1, so aggregated link values count
+ * the cases making that transition. Consecutive repeats of the same activity
+ * are collapsed into one step.
+ * @param sigmaData - Raw data from Sigma
+ * @param caseColumn - Column name for the case/session ID
+ * @param timestampColumn - Column name used to order events within a case
+ * @param activityColumn - Column name for the activity of each event
+ * @param addStartEndNodes - Whether to frame each case with synthetic Start/End nodes
+ * @param options - Node identity options; stages are step positions within a case (optional)
+ * @returns Formatted data for ECharts Sankey chart
+ */
+export function transformEventLogToSankey(
+  sigmaData: SigmaData,
+  caseColumn: string,
+  timestampColumn: string,
+  activityColumn: string,
+  addStartEndNodes: boolean,
+  options: TransformOptions = {}
+): SankeyChartData {
+  if (!sigmaData || !caseColumn || !timestampColumn || !activityColumn) {
+    return { nodes: [], links: [] };
+  }
+
+  const caseData = sigmaData[caseColumn] || [];
+  const timestampData = sigmaData[timestampColumn] || [];
+  const activityData = sigmaData[activityColumn] || [];
+  const categoryData = options.categoryColumn ? sigmaData[options.categoryColumn] || [] : [];
+  const colorData = options.colorColumn ? sigmaData[options.colorColumn] || [] : [];
+  const sortData = options.sortColumn ? sigmaData[options.sortColumn] || [] : [];
+
+  if (caseData.length !== timestampData.length || caseData.length !== activityData.length) {
+    console.error('Event log columns must have equal length');
+    return { nodes: [], links: [] };
+  }
+
+  if ((categoryData.length > 0 && categoryData.length !== caseData.length) ||
+      (colorData.length > 0 && colorData.length !== caseData.length) ||
+      (sortData.length > 0 && sortData.length !== caseData.length)) {
+    console.error('Category, color and sort order columns must have the same length as other columns');
+    return { nodes: [], links: [] };
+  }
+
+  // Group event rows by case, keeping the original row order as a tie-breaker
+  const cases = new Map<string, number[]>();
+  const skippedRows: SkippedRowReport = { totalRows: caseData.length, skippedRows: 0, reasons: {} };
+  for (let i = 0; i < caseData.length; i++) {
+    const caseId = String(caseData[i] ?? '').trim();
+    const activity = String(activityData[i] || '').trim();
+
+    if (!caseId) {
+      recordSkippedRow(skippedRows, 'emptyCase', i);
+      continue;
+    }
+    if (!activity) {
+      recordSkippedRow(skippedRows, 'emptyActivity', i);
+      continue;
+    }
+
+    if (!cases.has(caseId)) {
+      cases.set(caseId, []);
+    }
+    cases.get(caseId)!.push(i);
+  }
+
+  const nodeMap = new Map<string, SankeyNode>();
+  const links: SankeyLink[] = [];
+
+  cases.forEach(rows => {
+    rows.sort((a, b) => compareTimestamps(timestampData[a], timestampData[b]) || a - b);
+
+    // Each step keeps the first event row of its run, for category and color
+    const activities: string[] = [];
+    const activityRows: number[] = [];
+    rows.forEach(row => {
+      const activity = String(activityData[row]).trim();
+      if (activities[activities.length - 1] !== activity) {
+        activities.push(activity);
+        activityRows.push(row);
+      }
+    });
+
+    // A single-activity case only flows when framed by Start/End
+    if (activities.length < 2 && !addStartEndNodes) {
+      rows.forEach(row => recordSkippedRow(skippedRows, 'singleActivityCase', row));
+      return;
+    }
+
+    // Stage positions count the Start node, so the first activity sits at stage 2
+    const stageOffset = addStartEndNodes ? 2 : 1;
+    const steps = activities.map((activity, index) =>
+      addNode(
+        nodeMap,
+        activity,
+        options.qualifyByStage ? index + stageOffset : undefined,
+        readNodeAttributes(categoryData, colorData, sortData, activityRows[index])
+      )
+    );
+
+    if (addStartEndNodes) {
+      nodeMap.set(START_NODE.name, { ...START_NODE });
+      nodeMap.set(END_NODE.name, { ...END_NODE });
+      steps.unshift(START_NODE.name);
+      steps.push(END_NODE.name);
+    }
+
+    for (let step = 0; step < steps.length - 1; step++) {
+      links.push({
+        source: steps[step],
+        target: steps[step + 1],
+        value: 1
+      });
+    }
+  });
+
+  const nodes: SankeyNode[] = Array.from(nodeMap.values());
+  return { nodes, links, skippedRows };
+}
+
+/**
+ * Combine the values of duplicate rows with the chosen aggregation
+ * @param links - Raw links sharing one source → target pair
+ * @param aggregation - Aggregation function
+ * @returns Aggregated value
+ */
+function aggregateValues(links: SankeyLink[], aggregation: LinkAggregation): number {
+  const values = links.map(link => link.value);
+
+  switch (aggregation) {
+    case 'count':
+      return links.length;
+    case 'distinctCount':
+      // Rows without an ID each count as distinct
+      return new Set(links.map((link, index) => link.id ?? `row-${index}`)).size;
+    case 'average':
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'min':
+      return values.reduce((min, value) => Math.min(min, value), Infinity);
+    case 'max':
+      return values.reduce((max, value) => Math.max(max, value), -Infinity);
+    case 'sum':
+    default:
+      return values.reduce((sum, value) => sum + value, 0);
+  }
+}
+
+/**
+ * Combine one extra tooltip column across the rows of a link. Distinct lists
+ * from an earlier aggregation are flattened, so links can be re-aggregated.
+ * @param values - The column's values, one per row (or per link being merged)
+ * @param aggregation - Aggregation for this column; 'auto' sums numbers and lists anything else
+ * @returns Combined value, null when there is nothing to show
+ */
+function aggregateColumnValues(values: TooltipColumnValue[], aggregation: TooltipColumnAggregation): TooltipColumnValue {
+  const present = values.filter(value => value !== null && value !== undefined);
+  const flattened = present.reduce<(string | number)[]>((all, value) => all.concat(value as string | number | string[]), []);
+  const numbers = flattened.filter((value): value is number => typeof value === 'number');
+  const resolved = aggregation !== 'auto' ? aggregation
+    : flattened.length > 0 && numbers.length === flattened.length ? 'sum' : 'distinct';
+
+  switch (resolved) {
+    case 'sum':
+      return numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) : null;
+    case 'average':
+      return numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : null;
+    case 'first':
+      return present.length > 0 ? present[0] : null;
+    case 'distinct':
+    default:
+      return flattened.length > 0 ? Array.from(new Set(flattened.map(String))) : null;
+  }
+}
+
+/**
+ * Aggregate duplicate links into one link per source → target pair
+ * @param links - Array of Sankey links, one per data row
+ * @param aggregation - How values combine: sum (default), count of rows,
+ *   distinct count of link IDs, average, min or max
+ * @param columnAggregation - How each extra tooltip column combines, by column name
  * @returns Aggregated links with combined values
  */
-export function aggregateLinks(links: SankeyLink[]): SankeyLink[] {
-  const linkMap = new Map<string, SankeyLink>();
+export function aggregateLinks(
+  links: SankeyLink[],
+  aggregation: LinkAggregation = 'sum',
+  columnAggregation: Record<string, TooltipColumnAggregation> = {}
+): SankeyLink[] {
+  const linkGroups = new Map<string, SankeyLink[]>();
 
   links.forEach(link => {
     const key = `${link.source}->${link.target}`;
     
-    if (linkMap.has(key)) {
-      linkMap.get(key)!.value += link.value;
+    if (linkGroups.has(key)) {
+      linkGroups.get(key)!.push(link);
     } else {
-      linkMap.set(key, { ...link });
+      linkGroups.set(key, [link]);
     }
   });
 
-  return Array.from(linkMap.values());
+  return Array.from(linkGroups.values()).map(group => {
+    const link: SankeyLink = {
+      ...group[0],
+      value: aggregateValues(group, aggregation)
+    };
+
+    // Mixed directions on one link take the direction carrying more flow
+    if (link.direction) {
+      const inflow = group.reduce((sum, row) => sum + (row.direction === 'inflow' ? row.value : 0), 0);
+      const outflow = group.reduce((sum, row) => sum + (row.direction === 'inflow' ? 0 : row.value), 0);
+      link.direction = inflow > outflow ? 'inflow' : 'outflow';
+    }
+
+    if (link.columns) {
+      const columns: Record<string, TooltipColumnValue> = {};
+      Object.keys(link.columns).forEach(name => {
+        columns[name] = aggregateColumnValues(
+          group.map(row => row.columns?.[name] ?? null),
+          columnAggregation[name] || 'auto'
+        );
+      });
+      link.columns = columns;
+    }
+
+    return link;
+  });
+}
+
+/**
+ * Net opposite flows (A → B against B → A) into a single link in the dominant
+ * direction. The netted link keeps both figures: `gross` is the two directions
+ * combined and `net` the difference. Pairs that cancel out are removed, along
+ * with any node left without links. Run this after aggregateLinks.
+ * @param data - Sankey chart data with aggregated links
+ * @returns Data with at most one link between any two nodes
+ */
+export function netOpposingFlows(data: SankeyChartData): SankeyChartData {
+  const linksByKey = new Map(data.links.map(link => [`${link.source}->${link.target}`, link]));
+  const handled = new Set<string>();
+  const links: SankeyLink[] = [];
+
+  data.links.forEach(link => {
+    const key = `${link.source}->${link.target}`;
+    const reverseKey = `${link.target}->${link.source}`;
+    if (handled.has(key)) return;
+
+    const opposite = linksByKey.get(reverseKey);
+    if (!opposite || key === reverseKey) {
+      links.push(link);
+      return;
+    }
+
+    handled.add(key);
+    handled.add(reverseKey);
+
+    const net = link.value - opposite.value;
+    if (net === 0) {
+      return;
+    }
+
+    const dominant = net > 0 ? link : opposite;
+    links.push({
+      ...dominant,
+      value: Math.abs(net),
+      gross: link.value + opposite.value,
+      net: Math.abs(net)
+    });
+  });
+
+  const linkedNodes = new Set<string>();
+  links.forEach(link => {
+    linkedNodes.add(String(link.source));
+    linkedNodes.add(String(link.target));
+  });
+
+  return {
+    nodes: data.nodes.filter(node => linkedNodes.has(node.name)),
+    links
+  };
+}
+
+export interface RollupOptions {
+  topNTargets: number;    // 0 = no limit
+  minFlowPercent: number; // 0 = no threshold
+  minFlowBasis: 'total' | 'source';
+}
+
+/**
+ * Roll small flows up into one "Other" node per source, so the totals still add
+ * up when hundreds of thin links would otherwise be drawn. A link is kept when it
+ * is among the source's top N targets and meets the minimum share of the total
+ * (or of the source's outflow); the rest are summed into "Other". Only links into
+ * end nodes are rolled up: a node that passes flow on keeps its inflow, or its
+ * outflow would no longer add up. A source is only bucketed when at least two of
+ * its links fall out, since an "Other" of a single target would just rename it.
+ * Run this after aggregateLinks.
+ * @param data - Sankey chart data with aggregated links
+ * @param options - Thresholds from settings
+ * @returns Data with small flows merged; nodes left without links are removed
+ */
+export function rollupSmallFlows(data: SankeyChartData, options: RollupOptions): SankeyChartData {
+  const { topNTargets, minFlowPercent, minFlowBasis } = options;
+  if (topNTargets <= 0 && minFlowPercent <= 0) {
+    return data;
+  }
+
+  const nodesByName = new Map(data.nodes.map(node => [node.name, node]));
+  const total = data.links.reduce((sum, link) => sum + link.value, 0);
+  const linksBySource = new Map<string, SankeyLink[]>();
+  const sources = new Set(data.links.map(link => String(link.source)));
+
+  data.links.forEach(link => {
+    const sourceName = String(link.source);
+    if (!linksBySource.has(sourceName)) {
+      linksBySource.set(sourceName, []);
+    }
+    linksBySource.get(sourceName)!.push(link);
+  });
+
+  const links: SankeyLink[] = [];
+  const otherNodes: SankeyNode[] = [];
+
+  linksBySource.forEach((sourceLinks, sourceName) => {
+    const outflow = sourceLinks.reduce((sum, link) => sum + link.value, 0);
+    const basis = minFlowBasis === 'source' ? outflow : total;
+    const ranked = [...sourceLinks].sort((a, b) => b.value - a.value);
+
+    const kept: SankeyLink[] = [];
+    const rolledUp: SankeyLink[] = [];
+    ranked.forEach((link, rank) => {
+      const withinTopN = topNTargets <= 0 || rank < topNTargets;
+      const aboveMinimum = minFlowPercent <= 0 || (basis > 0 && (link.value / basis) * 100 >= minFlowPercent);
+      const isEndNode = !sources.has(String(link.target));
+      ((withinTopN && aboveMinimum) || !isEndNode ? kept : rolledUp).push(link);
+    });
+
+    if (rolledUp.length < 2) {
+      links.push(...sourceLinks);
+      return;
+    }
+
+    const otherName = otherNodeName(sourceName);
+    otherNodes.push({
+      name: otherName,
+      label: 'Other',
+      stage: nodesByName.get(String(rolledUp[0].target))?.stage,
+      members: rolledUp.map(link => {
+        const target = nodesByName.get(String(link.target));
+        return target?.label || String(link.target);
+      })
+    });
+
+    links.push(...kept, {
+      source: sourceName,
+      target: otherName,
+      value: rolledUp.reduce((sum, link) => sum + link.value, 0)
+    });
+  });
+
+  // Drop nodes whose every link was rolled up
+  const linkedNodes = new Set<string>();
+  links.forEach(link => {
+    linkedNodes.add(String(link.source));
+    linkedNodes.add(String(link.target));
+  });
+
+  return {
+    nodes: [...data.nodes.filter(node => linkedNodes.has(node.name)), ...otherNodes],
+    links
+  };
 }
 
 /**
@@ -170,6 +864,159 @@ export function calculateNodeDepths(
   return Array.from(nodeMap.values());
 }
 
+export interface FlowStatistics {
+  inflow: Map<string, number>;
+  outflow: Map<string, number>;
+  depth: Map<string, number>;
+  total: number; // Flow leaving the nodes that have no inflow
+}
+
+/**
+ * Summarise the flow through each node, for computed tooltip variables
+ * @param nodes - Array of Sankey nodes
+ * @param links - Array of Sankey links
+ * @returns Per-node inflow, outflow and depth, and the total flow
+ */
+export function calculateFlowStatistics(nodes: SankeyNode[], links: SankeyLink[]): FlowStatistics {
+  const inflow = new Map<string, number>();
+  const outflow = new Map<string, number>();
+
+  links.forEach(link => {
+    const sourceName = String(link.source);
+    const targetName = String(link.target);
+    outflow.set(sourceName, (outflow.get(sourceName) || 0) + link.value);
+    inflow.set(targetName, (inflow.get(targetName) || 0) + link.value);
+  });
+
+  let total = 0;
+  outflow.forEach((value, name) => {
+    if (!inflow.has(name)) {
+      total += value;
+    }
+  });
+
+  const depth = new Map(calculateNodeDepths(nodes, links).map(node => [node.name, node.depth || 0]));
+
+  return { inflow, outflow, depth, total };
+}
+
+export interface FlowTrace {
+  nodes: Set<string>; // The traced node and every ancestor and descendant
+  linkFlow: number[]; // Per link (by index), the part of its value passing through the traced node
+}
+
+/**
+ * Trace the lineage of a node: the flows that reach it and the flows it feeds.
+ * Nodes are visited in depth order (see calculateNodeDepths), so each node's share is
+ * complete before it is passed on. Where flows merge and split, they are assumed to
+ * mix proportionally: a node passes the traced part of its inflow on to its outgoing
+ * links in proportion to their values, and likewise upstream.
+ * @param nodes - Array of Sankey nodes
+ * @param links - Array of Sankey links, acyclic
+ * @param nodeName - Identity of the node to trace
+ * @returns Traced nodes and the traced flow on each link
+ */
+export function traceNodeFlows(nodes: SankeyNode[], links: SankeyLink[], nodeName: string): FlowTrace {
+  const { inflow, outflow, depth } = calculateFlowStatistics(nodes, links);
+  const linkFlow = links.map(() => 0);
+  const traced = new Set<string>([nodeName]);
+  const outgoing = new Map<string, number[]>();
+  const incoming = new Map<string, number[]>();
+
+  links.forEach((link, index) => {
+    const sourceName = String(link.source);
+    const targetName = String(link.target);
+    outgoing.set(sourceName, [...(outgoing.get(sourceName) || []), index]);
+    incoming.set(targetName, [...(incoming.get(targetName) || []), index]);
+  });
+
+  const tracedDepth = depth.get(nodeName) || 0;
+  const byDepth = nodes
+    .map(node => node.name)
+    .sort((a, b) => (depth.get(a) || 0) - (depth.get(b) || 0));
+
+  // Everything the node sends is traced; further down, each node passes on its traced share
+  (outgoing.get(nodeName) || []).forEach(index => {
+    linkFlow[index] = links[index].value;
+  });
+  byDepth.filter(name => (depth.get(name) || 0) > tracedDepth).forEach(name => {
+    const received = (incoming.get(name) || []).reduce((sum, index) => sum + linkFlow[index], 0);
+    if (received <= 0) return;
+
+    traced.add(name);
+    const share = Math.min(1, received / (inflow.get(name) || received));
+    (outgoing.get(name) || []).forEach(index => {
+      linkFlow[index] = links[index].value * share;
+    });
+  });
+
+  // Everything the node receives is traced; further up, each node's share is what it sends on
+  (incoming.get(nodeName) || []).forEach(index => {
+    linkFlow[index] = links[index].value;
+  });
+  byDepth.filter(name => (depth.get(name) || 0) < tracedDepth).reverse().forEach(name => {
+    const sent = (outgoing.get(name) || []).reduce((sum, index) => sum + linkFlow[index], 0);
+    if (sent <= 0) return;
+
+    traced.add(name);
+    const share = Math.min(1, sent / (outflow.get(name) || sent));
+    (incoming.get(name) || []).forEach(index => {
+      linkFlow[index] = links[index].value * share;
+    });
+  });
+
+  return { nodes: traced, linkFlow };
+}
+
+/**
+ * Compare sort keys: numerically when both are numbers, otherwise as text with
+ * embedded numbers in numeric order ("Step 2" before "Step 10")
+ */
+function compareSortKeys(a: string, b: string): number {
+  const numberA = Number(a);
+  const numberB = Number(b);
+  if (!isNaN(numberA) && !isNaN(numberB)) {
+    return numberA - numberB;
+  }
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Put the nodes in a fixed order. ECharts keeps the data order of the nodes within a
+ * level when its layout relaxation is off, so the order is the same on every refresh.
+ * @param data - Sankey chart data
+ * @param sort - Node order; 'auto' returns the data unchanged
+ * @returns Data with sorted nodes. Ties, and nodes without a sort key when sorting by
+ * the sort column, fall back to their display name
+ */
+export function sortNodes(data: SankeyChartData, sort: NodeSort): SankeyChartData {
+  if (sort === 'auto') {
+    return data;
+  }
+
+  const { inflow, outflow } = calculateFlowStatistics(data.nodes, data.links);
+  const nodeValue = (node: SankeyNode) => Math.max(inflow.get(node.name) || 0, outflow.get(node.name) || 0);
+  const byName = (a: SankeyNode, b: SankeyNode) => compareSortKeys(a.label || a.name, b.label || b.name);
+
+  const compare = (a: SankeyNode, b: SankeyNode): number => {
+    switch (sort) {
+      case 'valueDesc':
+        return nodeValue(b) - nodeValue(a);
+      case 'valueAsc':
+        return nodeValue(a) - nodeValue(b);
+      case 'column':
+        if (!a.sortKey || !b.sortKey) {
+          return (a.sortKey ? 0 : 1) - (b.sortKey ? 0 : 1);
+        }
+        return compareSortKeys(a.sortKey, b.sortKey);
+      default:
+        return 0;
+    }
+  };
+
+  return { ...data, nodes: [...data.nodes].sort((a, b) => compare(a, b) || byName(a, b)) };
+}
+
 /**
  * Validate Sankey data for common issues
  * @param data - Sankey chart data to validate
@@ -227,6 +1074,18 @@ export function validateSankeyData(data: SankeyChartData): {
     warnings.push(`Found ${selfLinks.length} self-referencing links`);
   }
   
+  // Check for cycles - ECharts' sankey layout only supports acyclic data
+  const cycles = detectCycles(data);
+  if (cycles.length > 0) {
+    errors.push(`Found ${cycles.length} cycle${cycles.length === 1 ? '' : 's'} in the flow data. Choose a cycle strategy in Settings → Data to break them automatically`);
+    cycles.slice(0, MAX_REPORTED_CYCLES).forEach(cycle => {
+      errors.push(`Cycle: ${cycle.join(' → ')}`);
+    });
+    if (cycles.length > MAX_REPORTED_CYCLES) {
+      errors.push(`…and ${cycles.length - MAX_REPORTED_CYCLES} more cycles`);
+    }
+  }
+  
   // Check for negative values
   const negativeValueLinks = data.links.filter(link => link.value <= 0);
   if (negativeValueLinks.length > 0) {
@@ -1,7 +1,27 @@
-import type { SankeySettings } from '../types/sigma';
+import type { SankeySettings, SankeyTooltipSettings } from '../types/sigma';
 
 // Default Sankey settings for the plugin
 export const DEFAULT_SANKEY_SETTINGS: SankeySettings = {
+  data: {
+    aggregation: 'sum',
+    signedFlows: 'drop',
+    cycleStrategy: 'none',
+    nodeIdentity: 'name',
+    addStartEndNodes: true,
+    topNTargets: 0,
+    minFlowPercent: 0,
+    minFlowBasis: 'total',
+    tooltipColumnAggregation: {},
+  },
+  format: {
+    style: 'auto',
+    compact: false,
+    decimals: null,
+    currency: 'USD',
+    locale: '',
+    prefix: '',
+    suffix: '',
+  },
   nodes: {
     width: 20,
     gap: 8,
@@ -14,6 +34,7 @@ export const DEFAULT_SANKEY_SETTINGS: SankeySettings = {
       fontSize: 12,
       fontWeight: 'normal',
       color: '#333333',
+      showValue: false,
     },
     itemStyle: {
       borderWidth: 1,
@@ -24,6 +45,9 @@ export const DEFAULT_SANKEY_SETTINGS: SankeySettings = {
     curveness: 0.5,
     colorMode: 'gradient',
     opacity: 0.7,
+    directionColors: false,
+    outflowColor: '#3ba272',
+    inflowColor: '#ee6666',
     lineStyle: {
       color: '#cccccc',
       width: 1,
@@ -34,15 +58,23 @@ export const DEFAULT_SANKEY_SETTINGS: SankeySettings = {
     orient: 'horizontal',
     nodeAlign: 'left',
     iterations: 32,
+    nodeSort: 'auto',
     nodeGap: 8,
     levelGap: 20,
     heightMode: 'responsive',
     customHeight: 600,
+    nodePositions: {},
+  },
+  legend: {
+    show: false,
+    position: 'right',
+    groupBy: 'node',
   },
   tooltip: {
     show: true,
     trigger: 'item',
-    formatter: '{source} → {target}: {value}',
+    linkFormatter: '{source} → {target}: {value}',
+    nodeFormatter: '{name}: {value}',
     backgroundColor: 'rgba(50,50,50,0.7)',
     borderColor: '#333',
     textStyle: {
@@ -58,6 +90,8 @@ export const DEFAULT_SANKEY_SETTINGS: SankeySettings = {
     select: {
       disabled: false,
     },
+    nodeSelection: 'either',
+    zoom: true,
   },
   animation: {
     enabled: true,
@@ -65,3 +99,56 @@ export const DEFAULT_SANKEY_SETTINGS: SankeySettings = {
     easing: 'cubicOut',
   },
 };
+
+/**
+ * Merge saved settings over the defaults one section deep, so configs saved
+ * before a section existed still produce a complete settings object
+ * @param settings - Partial settings parsed from the config JSON
+ * @returns Complete Sankey settings
+ */
+export function withSankeyDefaults(settings?: Partial<SankeySettings>): SankeySettings {
+  // Configs saved with one shared tooltip template keep it for links
+  const { formatter: legacyTemplate, ...tooltip } = settings?.tooltip || ({} as Partial<SankeyTooltipSettings>);
+
+  return {
+    ...DEFAULT_SANKEY_SETTINGS,
+    ...(settings || {}),
+    data: {
+      ...DEFAULT_SANKEY_SETTINGS.data,
+      ...(settings?.data || {}),
+    },
+    format: {
+      ...DEFAULT_SANKEY_SETTINGS.format,
+      ...(settings?.format || {}),
+    },
+    nodes: {
+      ...DEFAULT_SANKEY_SETTINGS.nodes,
+      ...(settings?.nodes || {}),
+    },
+    links: {
+      ...DEFAULT_SANKEY_SETTINGS.links,
+      ...(settings?.links || {}),
+    },
+    layout: {
+      ...DEFAULT_SANKEY_SETTINGS.layout,
+      ...(settings?.layout || {}),
+    },
+    legend: {
+      ...DEFAULT_SANKEY_SETTINGS.legend,
+      ...(settings?.legend || {}),
+    },
+    tooltip: {
+      ...DEFAULT_SANKEY_SETTINGS.tooltip,
+      ...(legacyTemplate ? { linkFormatter: legacyTemplate } : {}),
+      ...tooltip,
+    },
+    interaction: {
+      ...DEFAULT_SANKEY_SETTINGS.interaction,
+      ...(settings?.interaction || {}),
+    },
+    animation: {
+      ...DEFAULT_SANKEY_SETTINGS.animation,
+      ...(settings?.animation || {}),
+    },
+  };
+}
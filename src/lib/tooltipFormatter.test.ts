@@ -0,0 +1,105 @@
+import { createTooltipFormatter } from './tooltipFormatter';
+import { escapeHtml, sanitizeTooltipHtml } from './tooltipHtml';
+
+const HOSTILE_NAME = '<img src=x onerror="alert(1)">';
+
+function parseHtml(html: string): HTMLElement {
+  const element = document.createElement('div');
+  element.innerHTML = html;
+  return element;
+}
+
+describe('createTooltipFormatter', () => {
+  const formatter = createTooltipFormatter({
+    link: '{source} → {target}<br/>Value: {value}',
+    node: '<b>{name}</b>: {value}'
+  });
+
+  it('renders a hostile node name as text', () => {
+    const html = formatter({ dataType: 'node', name: HOSTILE_NAME, value: 5 });
+    const tooltip = parseHtml(html);
+
+    expect(tooltip.querySelector('img')).toBeNull();
+    expect(tooltip.querySelector('b')?.textContent).toBe(HOSTILE_NAME);
+  });
+
+  it('renders hostile link endpoints as text', () => {
+    const html = formatter({
+      dataType: 'edge',
+      data: { source: HOSTILE_NAME, target: '<script>alert(1)</script>', value: 3 }
+    });
+    const tooltip = parseHtml(html);
+
+    expect(tooltip.querySelector('img')).toBeNull();
+    expect(tooltip.querySelector('script')).toBeNull();
+    expect(tooltip.textContent).toContain(HOSTILE_NAME);
+    expect(tooltip.textContent).toContain('<script>alert(1)</script>');
+    expect(tooltip.querySelectorAll('br')).toHaveLength(1);
+  });
+
+  it('escapes group members and extra columns', () => {
+    const nodeHtml = formatter({ dataType: 'node', name: 'Other', value: 1, data: { members: [HOSTILE_NAME] } });
+    expect(parseHtml(nodeHtml).querySelector('img')).toBeNull();
+
+    const columnFormatter = createTooltipFormatter({ link: 'Owner: {col:Owner}', node: '{name}' });
+    const linkHtml = columnFormatter({
+      dataType: 'edge',
+      data: { source: 'A', target: 'B', value: 1, columns: { Owner: HOSTILE_NAME } }
+    });
+    expect(parseHtml(linkHtml).querySelector('img')).toBeNull();
+    expect(parseHtml(linkHtml).textContent).toBe(`Owner: ${HOSTILE_NAME}`);
+  });
+
+  it('keeps values from breaking out of a style attribute', () => {
+    const styled = createTooltipFormatter({ link: '<span style="color: {col:Color}">{source}</span>', node: '{name}' });
+    const html = styled({
+      dataType: 'edge',
+      data: { source: 'A', target: 'B', value: 1, columns: { Color: 'red" onmouseover="alert(1)' } }
+    });
+    const span = parseHtml(html).querySelector('span');
+
+    expect(span).not.toBeNull();
+    expect(span!.getAttribute('onmouseover')).toBeNull();
+  });
+
+  it('keeps allowed author markup', () => {
+    const styled = createTooltipFormatter({
+      link: '<b>{source}</b><br><i>{target}</i><span style="color: #f00">{value}</span>',
+      node: '{name}'
+    });
+    const html = styled({ dataType: 'edge', data: { source: 'A', target: 'B', value: 2 } });
+
+    expect(html).toBe('<b>A</b><br/><i>B</i><span style="color: #f00">2</span>');
+  });
+});
+
+describe('sanitizeTooltipHtml', () => {
+  it('escapes tags outside the allow-list', () => {
+    const tooltip = parseHtml(sanitizeTooltipHtml('<div onclick="x()">Hi</div><iframe src="//evil"></iframe>'));
+
+    expect(tooltip.querySelector('div')).toBeNull();
+    expect(tooltip.querySelector('iframe')).toBeNull();
+    expect(tooltip.textContent).toBe('<div onclick="x()">Hi</div><iframe src="//evil"></iframe>');
+  });
+
+  it('drops attributes other than style on allowed tags', () => {
+    expect(sanitizeTooltipHtml('<b onclick="x()">Hi</b>')).toBe('<b>Hi</b>');
+    expect(sanitizeTooltipHtml('<span onmouseover="x()" style="font-weight: bold">Hi</span>'))
+      .toBe('<span style="font-weight: bold">Hi</span>');
+  });
+
+  it('drops styles that can load resources', () => {
+    expect(sanitizeTooltipHtml('<span style="background: url(javascript:alert(1))">Hi</span>'))
+      .toBe('<span>Hi</span>');
+  });
+
+  it('escapes a stray "<"', () => {
+    expect(sanitizeTooltipHtml('a < b <img')).toBe('a &lt; b &lt;img');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
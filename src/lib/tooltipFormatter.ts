@@ -2,108 +2,264 @@
  * Tooltip formatter utilities for ECharts Sankey chart
  */
 
+import { SankeyChartData, TooltipColumnValue } from '../types/sigma';
+import { parseTemplate, renderTemplate, getTemplateVariables, TemplateValue } from './tooltipTemplate';
+import { calculateFlowStatistics } from './sankeyDataTransform';
+import { escapeHtml, sanitizeTooltipHtml } from './tooltipHtml';
+
+// Separate templates for link and node tooltips
+export interface TooltipTemplates {
+  link: string;
+  node: string;
+}
+
 export interface TooltipParams {
   name?: string;
   value?: number;
   data?: {
     source?: string;
     target?: string;
+    sourceName?: string;  // Display names, set when node identities are qualified
+    targetName?: string;
+    displayName?: string;
+    stage?: number;
+    members?: string[];
+    sourceStage?: number;
+    targetStage?: number;
+    gross?: number;  // Set on links netted from opposite flows
+    net?: number;
+    inflow?: number;  // Computed flow statistics, see calculateFlowStatistics
+    outflow?: number;
+    depth?: number;
+    percentOfSource?: number;
+    percentOfTarget?: number;
+    percentOfTotal?: number;
+    columns?: Record<string, TooltipColumnValue>;  // Extra tooltip columns, for {col:Name}
     value?: number;
+    fullValue?: number;  // Set on traced links, whose value is the traced part of the flow
     id?: string | number;
   };
   dataType?: 'node' | 'edge';
 }
 
+// How many members of an "Other" node are listed before summarising the rest
+const MAX_LISTED_MEMBERS = 10;
+
+/**
+ * Describe the contents of an "Other" node, e.g. "A, B, C and 4 more"
+ */
+function formatMembers(members: string[]): string {
+  const listed = members.slice(0, MAX_LISTED_MEMBERS).join(', ');
+  const remaining = members.length - MAX_LISTED_MEMBERS;
+  return remaining > 0 ? `${listed} and ${remaining} more` : listed;
+}
+
+// Variables rendered through the number format by default
+const VALUE_VARIABLES = ['value', 'data.value', 'gross', 'net', 'inflow', 'outflow'];
+// Variables holding a share of flow (0-1), rendered as percentages by default
+const PERCENT_VARIABLES = ['percentOfSource', 'percentOfTarget', 'percentOfTotal'];
+
+const LINK_VARIABLES = [
+  'source', 'target', 'value', 'id', 'sourceStage', 'targetStage', 'gross', 'net',
+  'percentOfSource', 'percentOfTarget', 'percentOfTotal'
+];
+const NODE_VARIABLES = [
+  'name', 'value', 'stage', 'members', 'inflow', 'outflow', 'net', 'depth', 'percentOfTotal'
+];
+const LEGACY_VARIABLES = ['data.source', 'data.target', 'data.value', 'data.id', 'data.name'];
+// Extra tooltip columns are read with {col:Column Name}
+const COLUMN_PREFIX = 'col:';
+// Node aliases kept for templates written when links and nodes shared one template
+const NODE_ALIASES = ['source', 'target'];
+
+// Lines appended when the template doesn't mention them
+const MEMBERS_SUFFIX = parseTemplate('<br/>Contains: {members}').nodes;
+const GROSS_NET_SUFFIX = parseTemplate('<br/>Gross: {gross}, Net: {net}').nodes;
+
 /**
- * Creates an ECharts formatter function from a template string
- * Supports both {variable} and {data.variable} syntax for backward compatibility
+ * Creates an ECharts formatter function from link and node templates
+ * Supports both {variable} and {data.variable} syntax for backward compatibility,
+ * format pipes ({value|currency:USD}) and conditionals ({#if id}…{else}…{/if}),
+ * see tooltipTemplate.ts
+ *
+ * The result is HTML. Variable values are escaped, and template markup is limited to
+ * <br/>, <b>, <i> and <span style="…">; other tags render as text (see tooltipHtml.ts).
  * 
- * Available variables:
- * - {source} or {data.source} - source node name
- * - {target} or {data.target} - target node name  
- * - {value} or {data.value} - link/node value
- * - {id} or {data.id} - link/node ID
- * - {name} - node name (for node tooltips)
+ * Link variables:
+ * - {source} / {target} - endpoint names
+ * - {value} - link value
+ * - {id} - link ID
+ * - {sourceStage} / {targetStage} - endpoint stages, when node identities include the stage
+ * - {gross} / {net} - both directions combined and their difference, for netted links
+ *   (appended automatically when unused; both equal {value} otherwise)
+ * - {percentOfSource} / {percentOfTarget} / {percentOfTotal} - share of the source's
+ *   outflow, the target's inflow and the total flow
+ * - {col:Column Name} - an extra tooltip column, aggregated over the link's rows
  * 
- * @param template - Template string with variable placeholders
+ * Node variables:
+ * - {name} - node name ({source} and {target} are aliases, for shared legacy templates)
+ * - {value} - node value
+ * - {stage} - node stage, when node identities include the stage
+ * - {members} - names rolled up into an "Other" node or group (appended automatically when unused)
+ * - {inflow} / {outflow} - flow into and out of the node; {net} is inflow minus outflow
+ * - {depth} - 0-based column of the node
+ * - {percentOfTotal} - the node's throughput as a share of the total flow
+ * 
+ * @param templates - Link and node templates; a single string is used for both
+ * @param formatValue - Formats value-like variables (see createNumberFormatter)
+ * @param locale - Locale for percentages and number pipes; empty = browser locale
  * @returns ECharts formatter function
  */
-export function createTooltipFormatter(template: string): (params: TooltipParams) => string {
+export function createTooltipFormatter(
+  templates: string | TooltipTemplates,
+  formatValue: (value: number) => string = String,
+  locale?: string
+): (params: TooltipParams) => string {
+  const { link: linkTemplate, node: nodeTemplate } = typeof templates === 'string'
+    ? { link: templates, node: templates }
+    : templates;
+  const linkNodes = parseTemplate(linkTemplate).nodes;
+  const nodeNodes = parseTemplate(nodeTemplate).nodes;
+  const linkVariables = getTemplateVariables(linkNodes);
+  const nodeVariables = getTemplateVariables(nodeNodes);
+  const percentFormat = new Intl.NumberFormat(locale || undefined, {
+    style: 'percent',
+    maximumFractionDigits: 1
+  });
+  const columnNumberFormat = new Intl.NumberFormat(locale || undefined, { maximumFractionDigits: 2 });
+
+  const formatVariable = (name: string, value: TemplateValue): string => {
+    if (Array.isArray(value)) {
+      return formatMembers(value);
+    }
+    if (typeof value === 'number' && VALUE_VARIABLES.includes(name)) {
+      return formatValue(value);
+    }
+    if (typeof value === 'number' && PERCENT_VARIABLES.includes(name)) {
+      return percentFormat.format(value);
+    }
+    if (typeof value === 'number' && name.startsWith(COLUMN_PREFIX)) {
+      return columnNumberFormat.format(value);
+    }
+    return String(value ?? '');
+  };
+
   return (params: TooltipParams): string => {
-    let result = template;
+    let variables: Record<string, TemplateValue> = {};
+    let templateNodes;
     
     // Handle both node and edge tooltips
     if (params.dataType === 'edge' && params.data) {
       // Edge/link tooltip - has source, target, value, and potentially id
-      const source = String(params.data.source || '');
-      const target = String(params.data.target || '');
-      const value = String(params.data.value || 0);
+      const source = String(params.data.sourceName || params.data.source || '');
+      const target = String(params.data.targetName || params.data.target || '');
+      const value = params.data.fullValue ?? (params.data.value || 0);
       const id = String(params.data.id || '');
-      
-      // Replace template variables - support both {var} and {data.var} syntax
-      result = result
-        .replace(/\{(data\.)?source\}/g, source)
-        .replace(/\{(data\.)?target\}/g, target)
-        .replace(/\{(data\.)?value\}/g, value)
-        .replace(/\{(data\.)?id\}/g, id);
+
+      variables = {
+        source,
+        target,
+        value,
+        id,
+        'data.source': source,
+        'data.target': target,
+        'data.value': value,
+        'data.id': id,
+        sourceStage: params.data.sourceStage ?? '',
+        targetStage: params.data.targetStage ?? '',
+        gross: params.data.gross ?? value,
+        net: params.data.net ?? value,
+        percentOfSource: params.data.percentOfSource,
+        percentOfTarget: params.data.percentOfTarget,
+        percentOfTotal: params.data.percentOfTotal
+      };
+
+      Object.keys(params.data.columns || {}).forEach(column => {
+        variables[`${COLUMN_PREFIX}${column}`] = params.data!.columns![column];
+      });
+
+      // Netted links always show both sides of the story
+      templateNodes = params.data.gross !== undefined && !linkVariables.has('gross') && !linkVariables.has('net')
+        ? [...linkNodes, ...GROSS_NET_SUFFIX]
+        : linkNodes;
         
     } else if (params.dataType === 'node') {
       // Node tooltip - has name and value
-      const name = String(params.name || '');
-      const value = String(params.value || 0);
-      
+      const name = String(params.data?.displayName || params.name || '');
+      const value = params.value || 0;
+      const members = params.data?.members || [];
+      const inflow = params.data?.inflow ?? 0;
+      const outflow = params.data?.outflow ?? 0;
+
       // For nodes, also support source/target as aliases for name
-      result = result
-        .replace(/\{(data\.)?name\}/g, name)
-        .replace(/\{(data\.)?source\}/g, name)
-        .replace(/\{(data\.)?target\}/g, name)
-        .replace(/\{(data\.)?value\}/g, value);
+      variables = {
+        name,
+        value,
+        'data.name': name,
+        'data.value': value,
+        source: name,
+        target: name,
+        'data.source': name,
+        'data.target': name,
+        stage: params.data?.stage ?? '',
+        members,
+        inflow,
+        outflow,
+        net: inflow - outflow,
+        depth: params.data?.depth ?? '',
+        percentOfTotal: params.data?.percentOfTotal
+      };
+
+      // "Other" nodes and groups always say what they contain
+      templateNodes = members.length > 0 && !nodeVariables.has('members')
+        ? [...nodeNodes, ...MEMBERS_SUFFIX]
+        : nodeNodes;
+    } else {
+      return sanitizeTooltipHtml(linkTemplate);
     }
+
+    const result = renderTemplate(templateNodes, { variables, formatVariable, locale, escape: escapeHtml });
     
-    // Handle HTML line breaks
-    result = result.replace(/<br\s*\/?>/gi, '<br/>');
-    
-    return result;
+    // Data is escaped above, so only the author's markup is left to check
+    return sanitizeTooltipHtml(result);
   };
 }
 
 /**
  * Validates a tooltip template string
  * @param template - Template string to validate
- * @returns Object with validation results
+ * @param dataType - Check the variables of link ('edge') or node templates; both when omitted
+ * @param columnNames - Extra tooltip columns available as {col:Name}; any name is accepted when omitted
+ * @returns Object with validation results; errors carry their position in the template
  */
-export function validateTooltipTemplate(template: string): {
+export function validateTooltipTemplate(template: string, dataType?: 'node' | 'edge', columnNames?: string[]): {
   isValid: boolean;
+  errors: string[];
   warnings: string[];
   supportedVariables: string[];
 } {
   const warnings: string[] = [];
-  const supportedVariables = [
-    '{source}', '{target}', '{value}', '{id}', '{name}',
-    '{data.source}', '{data.target}', '{data.value}', '{data.id}'
-  ];
-  
-  // Find all template variables in the string
-  const variablePattern = /\{([^}]+)\}/g;
-  const foundVariables: RegExpMatchArray[] = [];
-  let match: RegExpMatchArray | null;
-  while ((match = variablePattern.exec(template)) !== null) {
-    foundVariables.push(match);
-  }
+  const { nodes, errors } = parseTemplate(template);
+  const contextVariables = dataType === 'edge' ? LINK_VARIABLES
+    : dataType === 'node' ? NODE_VARIABLES
+    : Array.from(new Set([...LINK_VARIABLES, ...NODE_VARIABLES]));
+  const knownVariables = [...contextVariables, ...LEGACY_VARIABLES, ...(dataType === 'edge' ? [] : NODE_ALIASES)];
   
   // Check for unsupported variables
-  for (const match of foundVariables) {
-    const variable = match[0]; // Full match like {source}
-    const varName = match[1];  // Variable name like 'source'
-    
-    if (!supportedVariables.includes(variable)) {
-      // Check if it's a valid variable without 'data.' prefix
-      const withDataPrefix = `{data.${varName}}`;
-      if (!supportedVariables.includes(withDataPrefix)) {
-        warnings.push(`Unknown variable: ${variable}`);
+  getTemplateVariables(nodes).forEach(variable => {
+    if (variable.startsWith(COLUMN_PREFIX)) {
+      const column = variable.slice(COLUMN_PREFIX.length);
+      if (dataType === 'node') {
+        warnings.push(`{${variable}} is only available on link tooltips`);
+      } else if (columnNames && !columnNames.includes(column)) {
+        warnings.push(`Unknown tooltip column: {${variable}}. Add "${column}" to Tooltip Columns in the editor panel`);
       }
+    } else if (!knownVariables.includes(variable)) {
+      warnings.push(`Unknown variable: {${variable}}`);
+    } else if (dataType === 'node' && NODE_ALIASES.includes(variable)) {
+      warnings.push(`{${variable}} on a node tooltip shows the node name. Use {name} instead`);
     }
-  }
+  });
   
   // Check for deprecated 'data.' prefix usage
   if (template.includes('{data.')) {
@@ -111,9 +267,76 @@ export function validateTooltipTemplate(template: string): {
   }
   
   return {
-    isValid: warnings.filter(w => w.includes('Unknown variable')).length === 0,
+    isValid: errors.length === 0 && warnings.filter(w => w.includes('Unknown variable')).length === 0,
+    // Positions are reported 1-based for authors
+    errors: errors.map(error => `${error.message} at character ${error.position + 1}`),
     warnings,
-    supportedVariables: ['{source}', '{target}', '{value}', '{id}', '{name}']
+    supportedVariables: [
+      ...contextVariables,
+      ...(dataType === 'node' ? [] : (columnNames || []).map(column => `${COLUMN_PREFIX}${column}`))
+    ].map(variable => `{${variable}}`)
+  };
+}
+
+/**
+ * Build tooltip params for a real link or node of the data, for template previews.
+ * Picks the largest link, or the node carrying the most flow.
+ * @param data - Sankey chart data
+ * @param dataType - 'edge' for a link, 'node' for a node
+ * @returns Params shaped like the chart's, or null when the data is empty
+ */
+export function createPreviewParams(data: SankeyChartData, dataType: 'node' | 'edge'): TooltipParams | null {
+  if (data.links.length === 0) {
+    return null;
+  }
+
+  const stats = calculateFlowStatistics(data.nodes, data.links);
+  const nodesByName = new Map(data.nodes.map(node => [node.name, node]));
+  const displayName = (name: string) => nodesByName.get(name)?.label || name;
+  const share = (value: number, basis: number | undefined) => basis ? value / basis : undefined;
+
+  if (dataType === 'edge') {
+    const link = data.links.reduce((largest, candidate) => candidate.value > largest.value ? candidate : largest);
+    const source = String(link.source);
+    const target = String(link.target);
+    return {
+      dataType,
+      value: link.value,
+      data: {
+        source,
+        target,
+        sourceName: displayName(source),
+        targetName: displayName(target),
+        sourceStage: nodesByName.get(source)?.stage,
+        targetStage: nodesByName.get(target)?.stage,
+        value: link.value,
+        id: link.id,
+        gross: link.gross,
+        net: link.net,
+        percentOfSource: share(link.value, stats.outflow.get(source)),
+        percentOfTarget: share(link.value, stats.inflow.get(target)),
+        percentOfTotal: share(link.value, stats.total),
+        columns: link.columns
+      }
+    };
+  }
+
+  const throughput = (name: string) => Math.max(stats.inflow.get(name) || 0, stats.outflow.get(name) || 0);
+  const node = data.nodes.reduce((largest, candidate) =>
+    throughput(candidate.name) > throughput(largest.name) ? candidate : largest);
+  return {
+    dataType,
+    name: node.name,
+    value: throughput(node.name),
+    data: {
+      displayName: displayName(node.name),
+      stage: node.stage,
+      members: node.members,
+      inflow: stats.inflow.get(node.name) || 0,
+      outflow: stats.outflow.get(node.name) || 0,
+      depth: stats.depth.get(node.name),
+      percentOfTotal: share(throughput(node.name), stats.total)
+    }
   };
 }
 
@@ -123,9 +346,5 @@ export function validateTooltipTemplate(template: string): {
  * @returns Migrated template string
  */
 export function migrateTooltipTemplate(template: string): string {
-  return template
-    .replace(/\{data\.source\}/g, '{source}')
-    .replace(/\{data\.target\}/g, '{target}')
-    .replace(/\{data\.value\}/g, '{value}')
-    .replace(/\{data\.id\}/g, '{id}');
+  return template.replace(/\{data\.(source|target|value|id|name)(?=[|}])/g, '{$1');
 }
@@ -0,0 +1,78 @@
+/**
+ * HTML safety for tooltips
+ *
+ * ECharts renders tooltip formatter output as HTML, and tooltips mix two kinds of
+ * text: markup written by the workbook author in the template, and values read from
+ * the warehouse. Values are always escaped; author markup is limited to an allow-list
+ * of tags, anything else is shown as text.
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+// Tags authors may use in tooltip templates
+const ALLOWED_TAGS = ['br', 'b', 'i', 'span'];
+// Tags that may carry a style attribute
+const STYLED_TAGS = ['span'];
+
+// Styles that can load resources or run script in some browsers
+const UNSAFE_STYLE = /url\s*\(|expression\s*\(|javascript:|@import|behavior\s*:|-moz-binding|[<>\\]|&#/i;
+
+const TAG = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:\s+[^\s"'<>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'<>]+))?)*)\s*(\/?)>/g;
+const STYLE_ATTRIBUTE = /(?:^|\s)style\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+
+/**
+ * Escape text so it renders literally inside HTML, including attribute values
+ * @param text - Untrusted text, e.g. a node name from the data
+ * @returns Escaped text
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Rebuild an allowed tag in a normal form, keeping only a safe style attribute
+ */
+function normalizeTag(closing: boolean, name: string, attributes: string): string {
+  if (closing) {
+    return name === 'br' ? '' : `</${name}>`;
+  }
+  if (name === 'br') {
+    return '<br/>';
+  }
+
+  const style = STYLED_TAGS.includes(name) ? attributes.match(STYLE_ATTRIBUTE) : null;
+  const styleValue = style ? (style[1] ?? style[2]) : '';
+  return styleValue && !UNSAFE_STYLE.test(styleValue)
+    ? `<${name} style="${styleValue.replace(/"/g, '&quot;')}">`
+    : `<${name}>`;
+}
+
+/**
+ * Keep the allowed tags of rendered tooltip HTML (<br/>, <b>, <i>, <span style>)
+ * and escape every other "<", so unknown tags, scripts and event handlers show as text.
+ * Values substituted into the template must already be escaped with escapeHtml.
+ * @param html - Rendered tooltip
+ * @returns HTML safe to hand to ECharts
+ */
+export function sanitizeTooltipHtml(html: string): string {
+  let result = '';
+  let lastIndex = 0;
+
+  html.replace(TAG, (tag, closing: string, name: string, attributes: string, _selfClosing: string, offset: number) => {
+    const tagName = name.toLowerCase();
+    result += html.slice(lastIndex, offset).replace(/</g, '&lt;');
+    result += ALLOWED_TAGS.includes(tagName)
+      ? normalizeTag(closing === '/', tagName, attributes)
+      : escapeHtml(tag);
+    lastIndex = offset + tag.length;
+    return tag;
+  });
+
+  return result + html.slice(lastIndex).replace(/</g, '&lt;');
+}
@@ -0,0 +1,283 @@
+/**
+ * Tooltip template language
+ *
+ * - {variable} - substitute a variable; {col:Column Name} reads an extra tooltip column
+ * - {variable|pipe:arg|pipe} - format it through pipes, e.g. {value|currency:EUR|compact}
+ * - {#if variable}…{else}…{/if} - render a branch when the variable is non-empty and non-zero
+ *
+ * Templates are parsed once into a small tree and rendered per tooltip. Parsing
+ * never throws: malformed tags are kept as text and reported with their position.
+ */
+
+export interface TemplateParseError {
+  message: string;
+  position: number; // 0-based offset into the template
+}
+
+export interface TemplatePipe {
+  name: string;
+  args: string[];
+}
+
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string; pipes: TemplatePipe[]; raw: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[]; position: number };
+
+type IfNode = Extract<TemplateNode, { type: 'if' }>;
+
+export type TemplateValue = string | number | string[] | null | undefined;
+
+export interface TemplateContext {
+  // Variables available to this tooltip; names missing here render as written
+  variables: Record<string, TemplateValue>;
+  // Rendering of a variable without formatting pipes
+  formatVariable: (name: string, value: TemplateValue) => string;
+  // Locale for the number pipes; empty = browser locale
+  locale?: string;
+  // Applied to every rendered variable, e.g. HTML escaping of data values
+  escape?: (text: string) => string;
+}
+
+// Pipes that shape a number; they combine, e.g. {value|currency:EUR|compact}
+const NUMBER_PIPES = ['currency', 'number', 'percent', 'compact'];
+// Pipes that work on the rendered text
+const TEXT_PIPES = ['upper', 'lower', 'default'];
+export const TEMPLATE_PIPES = [...NUMBER_PIPES, ...TEXT_PIPES];
+
+const VARIABLE_NAME = /^([A-Za-z_][\w.]*|col:[^|{}]+)$/;
+
+// The es6 lib typings predate compact notation
+type NumberFormatOptions = Intl.NumberFormatOptions & { notation?: 'standard' | 'compact' };
+
+/**
+ * Parse a variable tag's body ("value|currency:USD") into a variable node
+ */
+function parseVariable(
+  body: string,
+  raw: string,
+  position: number,
+  errors: TemplateParseError[]
+): TemplateNode | null {
+  const [name, ...pipeSources] = body.split('|');
+
+  if (!VARIABLE_NAME.test(name.trim())) {
+    errors.push({ message: `Invalid variable name "${name.trim()}"`, position });
+    return null;
+  }
+
+  const pipes: TemplatePipe[] = [];
+  let offset = position + 1 + name.length + 1; // Past "{", the name and the first "|"
+  pipeSources.forEach(source => {
+    const [pipeName, ...args] = source.split(':');
+    const trimmedName = pipeName.trim();
+
+    if (!TEMPLATE_PIPES.includes(trimmedName)) {
+      errors.push({
+        message: trimmedName ? `Unknown format pipe "${trimmedName}"` : 'Empty format pipe',
+        position: offset
+      });
+    } else {
+      pipes.push({ name: trimmedName, args: args.map(arg => arg.trim()) });
+    }
+    offset += source.length + 1;
+  });
+
+  return { type: 'variable', name: name.trim(), pipes, raw };
+}
+
+/**
+ * Parse a template into a tree of text, variables and conditionals
+ * @param template - Template string
+ * @returns Parsed nodes, plus any errors with their positions
+ */
+export function parseTemplate(template: string): { nodes: TemplateNode[]; errors: TemplateParseError[] } {
+  const root: TemplateNode[] = [];
+  const errors: TemplateParseError[] = [];
+  const openBlocks: { node: IfNode; inElse: boolean }[] = [];
+
+  // Nodes are added to the innermost open branch
+  const current = (): TemplateNode[] => {
+    const block = openBlocks[openBlocks.length - 1];
+    return block ? (block.inElse ? block.node.otherwise : block.node.then) : root;
+  };
+  const addText = (text: string) => {
+    if (text) {
+      current().push({ type: 'text', text });
+    }
+  };
+
+  let textStart = 0;
+  let index = 0;
+  while (index < template.length) {
+    const open = template.indexOf('{', index);
+    if (open === -1) break;
+
+    const close = template.indexOf('}', open + 1);
+    const nextOpen = template.indexOf('{', open + 1);
+    if (close === -1 || (nextOpen !== -1 && nextOpen < close)) {
+      errors.push({ message: 'Unclosed "{"', position: open });
+      index = open + 1;
+      continue;
+    }
+
+    addText(template.slice(textStart, open));
+    const raw = template.slice(open, close + 1);
+    const tag = template.slice(open + 1, close).trim();
+    index = textStart = close + 1;
+
+    if (tag.startsWith('#if')) {
+      const name = tag.slice(3).trim();
+      if (tag.length > 3 && !/\s/.test(tag[3])) {
+        errors.push({ message: `Unknown block "${tag.split(/\s/)[0]}"`, position: open });
+        addText(raw);
+      } else if (!VARIABLE_NAME.test(name)) {
+        errors.push({ message: 'Expected a variable name after "#if"', position: open });
+        addText(raw);
+      } else {
+        const node: IfNode = { type: 'if', name, then: [], otherwise: [], position: open };
+        current().push(node);
+        openBlocks.push({ node, inElse: false });
+      }
+    } else if (tag.startsWith('#')) {
+      errors.push({ message: `Unknown block "${tag.split(/\s/)[0]}"`, position: open });
+      addText(raw);
+    } else if (tag === 'else') {
+      const block = openBlocks[openBlocks.length - 1];
+      if (!block) {
+        errors.push({ message: '"{else}" outside an "{#if}" block', position: open });
+        addText(raw);
+      } else if (block.inElse) {
+        errors.push({ message: `Second "{else}" in "{#if ${block.node.name}}"`, position: open });
+      } else {
+        block.inElse = true;
+      }
+    } else if (tag.startsWith('/')) {
+      if (tag !== '/if') {
+        errors.push({ message: `Unknown closing tag "${raw}"`, position: open });
+        addText(raw);
+      } else if (openBlocks.length === 0) {
+        errors.push({ message: '"{/if}" without a matching "{#if}"', position: open });
+      } else {
+        openBlocks.pop();
+      }
+    } else if (!tag) {
+      errors.push({ message: 'Empty "{}"', position: open });
+      addText(raw);
+    } else {
+      const variable = parseVariable(template.slice(open + 1, close), raw, open, errors);
+      if (variable) {
+        current().push(variable);
+      } else {
+        addText(raw);
+      }
+    }
+  }
+
+  addText(template.slice(textStart));
+  openBlocks.forEach(block => {
+    errors.push({ message: `"{#if ${block.node.name}}" is never closed with "{/if}"`, position: block.node.position });
+  });
+
+  return { nodes: root, errors };
+}
+
+/**
+ * Collect every variable a template refers to, including in conditionals
+ */
+export function getTemplateVariables(nodes: TemplateNode[]): Set<string> {
+  const names = new Set<string>();
+  const visit = (list: TemplateNode[]) => list.forEach(node => {
+    if (node.type === 'variable') {
+      names.add(node.name);
+    } else if (node.type === 'if') {
+      names.add(node.name);
+      visit(node.then);
+      visit(node.otherwise);
+    }
+  });
+  visit(nodes);
+  return names;
+}
+
+function isEmpty(value: TemplateValue): boolean {
+  return value === null || value === undefined || value === '' || value === 0 ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Apply a variable's pipes. Number pipes accumulate into one Intl format,
+ * applied before the first text pipe (or at the end).
+ */
+function applyPipes(name: string, value: TemplateValue, pipes: TemplatePipe[], context: TemplateContext): string {
+  let numberOptions: NumberFormatOptions | null = null;
+  let text: string | null = null;
+
+  const render = (): string => {
+    if (text !== null) return text;
+    if (numberOptions && typeof value !== 'object' && value !== '' && !isNaN(Number(value))) {
+      try {
+        return new Intl.NumberFormat(context.locale || undefined, numberOptions).format(Number(value));
+      } catch (err) {
+        console.error('Invalid tooltip format pipe:', err);
+      }
+    }
+    return context.formatVariable(name, value);
+  };
+
+  pipes.forEach(({ name: pipe, args }) => {
+    if (NUMBER_PIPES.includes(pipe) && text === null) {
+      const decimals = args[0] !== undefined && args[0] !== '' ? Number(args[0]) : NaN;
+      const options: NumberFormatOptions = { ...(numberOptions || {}) };
+
+      if (pipe === 'currency') {
+        options.style = 'currency';
+        options.currency = (args[0] || 'USD').toUpperCase();
+      } else if (pipe === 'percent') {
+        options.style = 'percent';
+      } else if (pipe === 'compact') {
+        options.notation = 'compact';
+      }
+
+      if ((pipe === 'number' || pipe === 'percent') && !isNaN(decimals)) {
+        options.minimumFractionDigits = decimals;
+        options.maximumFractionDigits = decimals;
+      }
+      numberOptions = options;
+    } else if (pipe === 'upper') {
+      text = render().toUpperCase();
+    } else if (pipe === 'lower') {
+      text = render().toLowerCase();
+    } else if (pipe === 'default') {
+      const rendered = render();
+      text = isEmpty(value) || rendered === '' ? args.join(':') : rendered;
+    }
+  });
+
+  return render();
+}
+
+/**
+ * Render parsed template nodes
+ * @param nodes - Nodes from parseTemplate
+ * @param context - Variables and default formatting for this tooltip
+ * @returns Rendered string
+ */
+export function renderTemplate(nodes: TemplateNode[], context: TemplateContext): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'if':
+        return renderTemplate(isEmpty(context.variables[node.name]) ? node.otherwise : node.then, context);
+      case 'variable':
+        if (!(node.name in context.variables)) {
+          return node.raw;
+        }
+        const rendered = applyPipes(node.name, context.variables[node.name], node.pipes, context);
+        return context.escape ? context.escape(rendered) : rendered;
+      default:
+        return '';
+    }
+  }).join('');
+}
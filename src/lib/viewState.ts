@@ -0,0 +1,127 @@
+import { SankeyChartData, SankeyLink, SankeyNode, SankeyViewState, LinkAggregation, TooltipColumnAggregation } from '../types/sigma';
+import { traceNodeFlows } from './sankeyDataTransform';
+import { mergeNodes } from './nodeGroups';
+import { collapsedNodeName } from './nodeIdentity';
+import { breakCycles } from './sankeyCycles';
+
+export const EMPTY_VIEW_STATE: SankeyViewState = { hiddenNodes: [], otherNodes: [], isolatedNode: null };
+
+/**
+ * Whether a view state changes anything
+ */
+export function hasViewChanges(state: SankeyViewState): boolean {
+  return state.hiddenNodes.length > 0 || state.otherNodes.length > 0 || state.isolatedNode !== null;
+}
+
+/**
+ * Whether a node is the "Other" node that collapseNodes produces
+ */
+export function isCollapsedNode(node: Pick<SankeyNode, 'name' | 'stage'>): boolean {
+  return node.name === collapsedNodeName(node.stage);
+}
+
+/**
+ * Merge nodes into one "Other" node per stage; flows between them become internal
+ */
+function collapseNodes(
+  data: SankeyChartData,
+  names: Set<string>,
+  aggregation: LinkAggregation,
+  columnAggregation: Record<string, TooltipColumnAggregation>
+): SankeyChartData {
+  const collapsedInto = new Map<string, string>(); // node name -> "Other" node name
+  const otherNodes = new Map<string, SankeyNode>();
+
+  data.nodes.forEach(node => {
+    if (!names.has(node.name)) {
+      return;
+    }
+
+    const otherName = collapsedNodeName(node.stage);
+    if (!otherNodes.has(otherName)) {
+      otherNodes.set(otherName, { name: otherName, label: 'Other', stage: node.stage, members: [] });
+    }
+    otherNodes.get(otherName)!.members!.push(...(node.members || [node.label || node.name]));
+    collapsedInto.set(node.name, otherName);
+  });
+
+  if (otherNodes.size === 0) {
+    return data;
+  }
+  return mergeNodes(data, collapsedInto, Array.from(otherNodes.values()), aggregation, columnAggregation);
+}
+
+/**
+ * Keep only the flow passing through one node, see traceNodeFlows
+ */
+function isolateNode(data: SankeyChartData, name: string): SankeyChartData {
+  if (!data.nodes.some(node => node.name === name)) {
+    return data;
+  }
+
+  const trace = traceNodeFlows(data.nodes, data.links, name);
+  const links: SankeyLink[] = [];
+  data.links.forEach((link, index) => {
+    const flow = trace.linkFlow[index];
+    if (flow <= 0) {
+      return;
+    }
+    if (flow === link.value) {
+      links.push(link);
+      return;
+    }
+
+    // Only part of this link passes through the node
+    const partial: SankeyLink = { ...link, value: flow };
+    delete partial.gross;
+    delete partial.net;
+    links.push(partial);
+  });
+
+  return { ...data, nodes: data.nodes.filter(node => trace.nodes.has(node.name)), links };
+}
+
+/**
+ * Apply the chart's session view state to the data: hidden nodes are removed with
+ * their flows, collapsed nodes merge into "Other", and an isolated node keeps only
+ * the flow through it. Runs after the data pipeline, on acyclic data.
+ * @param data - Sankey chart data
+ * @param state - View state from the chart's context menu
+ * @param aggregation - Aggregation used for the data, for re-aggregating merged links
+ * @param columnAggregation - How extra tooltip columns combine, by column name
+ * @returns Data as the viewer asked to see it; nodes left without links are removed
+ */
+export function applyViewState(
+  data: SankeyChartData,
+  state: SankeyViewState,
+  aggregation: LinkAggregation = 'sum',
+  columnAggregation: Record<string, TooltipColumnAggregation> = {}
+): SankeyChartData {
+  if (!hasViewChanges(state)) {
+    return data;
+  }
+
+  const hidden = new Set(state.hiddenNodes);
+  let result: SankeyChartData = {
+    ...data,
+    nodes: data.nodes.filter(node => !hidden.has(node.name)),
+    links: data.links.filter(link => !hidden.has(String(link.source)) && !hidden.has(String(link.target)))
+  };
+
+  if (state.otherNodes.length > 0) {
+    // Merging nodes from different paths can close a loop
+    result = breakCycles(collapseNodes(result, new Set(state.otherNodes), aggregation, columnAggregation), 'dropBackEdges');
+  }
+
+  if (state.isolatedNode !== null) {
+    result = isolateNode(result, state.isolatedNode);
+  }
+
+  const linkedNodes = new Set<string>();
+  result.links.forEach(link => {
+    linkedNodes.add(String(link.source));
+    linkedNodes.add(String(link.target));
+  });
+
+  return { ...result, nodes: result.nodes.filter(node => linkedNodes.has(node.name)) };
+}
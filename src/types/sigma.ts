@@ -1,11 +1,37 @@
+// How rows in the source element describe flows
+export type InputMode = 'Source/Target' | 'Path' | 'Event Log';
+
+// Session-only changes made from the chart's context menu, see applyViewState
+export interface SankeyViewState {
+  hiddenNodes: string[]; // Node identities removed with their flows
+  otherNodes: string[]; // Node identities merged into one "Other" node per stage
+  isolatedNode: string | null; // Only flows through this node are shown
+}
+
 // Sigma plugin configuration types
 export interface SigmaConfig {
   source?: string;
+  inputMode?: InputMode;
   sourceColumn?: string;
   targetColumn?: string;
+  sourceGroupColumn?: string;
+  targetGroupColumn?: string;
+  categoryColumn?: string;
+  colorColumn?: string;
+  targetCategoryColumn?: string;
+  targetColorColumn?: string;
+  sortColumn?: string;
+  targetSortColumn?: string;
+  tooltipColumns?: string[];
+  stageColumns?: string[];
+  stageColumn?: string;
+  caseColumn?: string;
+  timestampColumn?: string;
+  activityColumn?: string;
   valueColumn?: string;
   idColumn?: string;
   selectedID?: string;
+  selectedNode?: string;
   config?: string;
   editMode?: boolean;
 }
@@ -29,6 +55,7 @@ export interface SankeyNodeSettings {
     fontSize: number;
     fontWeight: 'normal' | 'bold';
     color: string;
+    showValue?: boolean; // Append the formatted node value to the name
   };
   itemStyle: {
     borderWidth: number;
@@ -40,6 +67,9 @@ export interface SankeyLinkSettings {
   curveness: number;
   colorMode: 'gradient' | 'source' | 'target' | 'none';
   opacity: number;
+  directionColors: boolean; // Color outflows and (reversed) inflows distinctly, overriding colorMode
+  outflowColor: string;
+  inflowColor: string;
   lineStyle: {
     color: string;
     width: number;
@@ -47,20 +77,38 @@ export interface SankeyLinkSettings {
   };
 }
 
+// Vertical order of the nodes within each level. 'auto' leaves it to ECharts' layout
+// relaxation; the others fix the order and turn relaxation off (see sortNodes)
+export type NodeSort = 'auto' | 'valueDesc' | 'valueAsc' | 'alphabetical' | 'column';
+
 export interface SankeyLayoutSettings {
   orient: 'horizontal' | 'vertical';
   nodeAlign: 'left' | 'right' | 'justify';
   iterations: number;
+  nodeSort: NodeSort;
   nodeGap: number;
   levelGap: number;
   heightMode: 'responsive' | 'fixed';
   customHeight: number;
+  // Nodes dragged by an editor, by node identity: position within their level as a
+  // fraction of the diagram's height (its width when vertical). Other nodes are auto-laid out
+  nodePositions: Record<string, number>;
+}
+
+// Legend listing the node colors: one entry per node name, or per category where
+// nodes have one (nodes in a category share a color)
+export interface SankeyLegendSettings {
+  show: boolean;
+  position: 'top' | 'bottom' | 'left' | 'right';
+  groupBy: 'node' | 'category';
 }
 
 export interface SankeyTooltipSettings {
   show: boolean;
   trigger: 'item' | 'axis';
-  formatter: string;
+  linkFormatter: string;
+  nodeFormatter: string;
+  formatter?: string; // Deprecated single template for links and nodes; read as linkFormatter
   backgroundColor: string;
   borderColor: string;
   textStyle: {
@@ -69,21 +117,74 @@ export interface SankeyTooltipSettings {
   };
 }
 
+// Which nodes a click writes to the Selected Node variable: those with outgoing flows
+// (matching the Source column), those with incoming flows (the Target column), or any
+export type NodeSelectionRole = 'either' | 'source' | 'target';
+
 export interface SankeyInteractionSettings {
   emphasis: {
-    focus: 'none' | 'self' | 'adjacency';
+    focus: 'none' | 'self' | 'adjacency' | 'trace'; // 'trace' follows a node's full lineage, see traceNodeFlows
     blurScope: 'coordinateSystem' | 'series' | 'global';
   };
   select: {
     disabled: boolean;
   };
+  nodeSelection: NodeSelectionRole;
+  zoom: boolean; // Wheel zoom, drag to pan and the zoom controls
 }
 
+// How cycles (A → B → A) are resolved before rendering - ECharts' sankey only accepts DAGs
+export type CycleStrategy = 'none' | 'dropBackEdges' | 'splitNodes';
+
+// Whether a node is identified by its name alone or by name and stage
+export type NodeIdentity = 'name' | 'stage';
+
+// How duplicate source → target rows combine into one link value
+export type LinkAggregation = 'sum' | 'count' | 'distinctCount' | 'average' | 'min' | 'max';
+
+// How an extra tooltip column combines across the rows of one link; 'auto' sums
+// numeric columns and lists distinct values of anything else
+export type TooltipColumnAggregation = 'auto' | 'sum' | 'average' | 'first' | 'distinct';
+
+// Value of an extra tooltip column on a link; distinct lists are arrays
+export type TooltipColumnValue = string | number | string[] | null;
+
+// What happens to negative values: drop the row, reverse its direction, or
+// reverse it and then net opposite pairs (A → B against B → A) into one link
+export type SignedFlowMode = 'drop' | 'reverse' | 'net';
+
+export interface SankeyDataSettings {
+  aggregation: LinkAggregation;
+  signedFlows: SignedFlowMode;
+  cycleStrategy: CycleStrategy;
+  nodeIdentity: NodeIdentity;
+  addStartEndNodes: boolean; // Event Log mode: frame every case with synthetic Start/End nodes
+  topNTargets: number; // Keep only the N largest targets per source (0 = keep all)
+  minFlowPercent: number; // Hide links below this share of the basis (0 = keep all)
+  minFlowBasis: 'total' | 'source';
+  tooltipColumnAggregation: Record<string, TooltipColumnAggregation>; // By column name; missing = 'auto'
+}
+
+// 'auto' follows the value column's type in Sigma (no decimals for integer columns)
+export type NumberFormatStyle = 'auto' | 'number' | 'currency' | 'percent';
+
+export interface SankeyNumberFormatSettings {
+  style: NumberFormatStyle;
+  compact: boolean;        // 1.2K, 3.4M
+  decimals: number | null; // null = locale default
+  currency: string;        // ISO 4217 code, for the currency style
+  locale: string;          // BCP 47 tag; empty = browser locale
+  prefix: string;
+  suffix: string;
+}
 
 export interface SankeySettings {
+  data: SankeyDataSettings;
+  format: SankeyNumberFormatSettings;
   nodes: SankeyNodeSettings;
   links: SankeyLinkSettings;
   layout: SankeyLayoutSettings;
+  legend: SankeyLegendSettings;
   tooltip: SankeyTooltipSettings;
   interaction: SankeyInteractionSettings;
   animation: {
@@ -104,6 +205,7 @@ export interface DataInfo {
   sourceColumnName: string;
   targetColumnName: string;
   valueColumnName: string;
+  columnSummary: string; // Human-readable description of the mapped columns for the active input mode
   hasData: boolean;
 }
 
@@ -111,6 +213,15 @@ export interface DataInfo {
 export interface SankeyNode {
   id?: string;
   name: string;
+  label?: string; // Display name when `name` is a qualified identity (e.g. a split cycle node)
+  stage?: number; // 1-based stage/level when identities are stage-qualified
+  members?: string[]; // Names rolled up into an "Other" node or a collapsed group
+  group?: string; // Group this node collapses into (Source/Target Group columns)
+  groupSide?: 'source' | 'target'; // Column the group came from; same-named source and target groups stay apart
+  isGroup?: boolean; // Set on a collapsed group node; clicking it expands the group
+  category?: string; // From the Node Category column; nodes in one category share a color
+  color?: string; // Explicit hex color from the Node Color column
+  sortKey?: string; // From the Node Sort Order column, used by the 'column' node sort
   value?: number;
   depth?: number;
 }
@@ -120,11 +231,35 @@ export interface SankeyLink {
   target: string | number;
   value: number;
   id?: string | number;
+  direction?: 'outflow' | 'inflow'; // 'inflow' when drawn from reversed negative rows
+  gross?: number; // Set when opposite flows were netted: both directions combined
+  net?: number;
+  columns?: Record<string, TooltipColumnValue>; // Extra tooltip columns by column name
 }
 
 export interface SankeyChartData {
   nodes: SankeyNode[];
   links: SankeyLink[];
+  skippedRows?: SkippedRowReport; // Set by the transforms; describes rows that produced no flow
+}
+
+// Why a source row produced no flow
+export type SkipReason =
+  | 'emptySource'
+  | 'emptyTarget'
+  | 'incompletePath'
+  | 'emptyCase'
+  | 'emptyActivity'
+  | 'singleActivityCase'
+  | 'missingValue'
+  | 'nonNumericValue'
+  | 'nonPositiveValue';
+
+export interface SkippedRowReport {
+  totalRows: number;
+  skippedRows: number;
+  // Each skipped row is counted under its first failing reason; sample rows are 0-based indices
+  reasons: Partial<Record<SkipReason, { count: number; sampleRows: number[] }>>;
 }
 
 // Sigma client interface (based on @sigmacomputing/plugin)